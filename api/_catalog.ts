@@ -0,0 +1,58 @@
+import { createHash } from "node:crypto";
+import { parseLinkPreview } from "../src/linkPreview";
+import { isLinkTag } from "../src/linkTags";
+import { inspirationLinks, LinkData } from "../src/links";
+import type { SubmissionStore } from "./_store";
+
+/** Browsers revalidate after a minute; the CDN holds it five and may serve stale while refetching. */
+export const CATALOG_CACHE_CONTROL = "public, max-age=60, s-maxage=300, stale-while-revalidate=600";
+
+export interface CatalogResponse {
+	status: 200 | 304;
+	headers: Record<string, string>;
+	body: string;
+}
+
+/** Bundled links first, then approved entries oldest → newest; the first copy of a URL wins. */
+export async function loadCatalog(store: SubmissionStore): Promise<LinkData[]> {
+	const approved = (await store.listCatalog()).map((row): LinkData => {
+		const link: LinkData = { title: row.title || row.url, url: row.url };
+		// Rows may predate the current taxonomy or preview shape.
+		const tags = (row.tags as string[]).filter(isLinkTag);
+		if (tags.length > 0) link.tags = tags;
+		if (row.note) link.note = row.note;
+		if (row.submitter_handle) link.handle = row.submitter_handle;
+		const preview = parseLinkPreview(row.preview);
+		if (preview) link.preview = preview;
+		if (row.created_at) link.addedAt = row.created_at;
+		return link;
+	});
+
+	const seen = new Set<string>();
+	const links: LinkData[] = [];
+	for (const link of [...inspirationLinks, ...approved]) {
+		if (typeof link.url !== "string" || seen.has(link.url)) continue;
+		seen.add(link.url);
+		links.push(link);
+	}
+	return links;
+}
+
+/** `{ links }` with a content-hash ETag; a matching `If-None-Match` gets an empty 304. */
+export function catalogResponse(links: LinkData[], ifNoneMatch?: string | string[]): CatalogResponse {
+	const body = JSON.stringify({ links });
+	const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+	const headers: Record<string, string> = {
+		ETag: etag,
+		"Cache-Control": CATALOG_CACHE_CONTROL,
+	};
+
+	const candidates = (Array.isArray(ifNoneMatch) ? ifNoneMatch.join(",") : ifNoneMatch ?? "")
+		.split(",")
+		.map((tag) => tag.trim().replace(/^W\//, ""));
+	if (candidates.includes(etag) || candidates.includes("*")) {
+		return { status: 304, headers, body: "" };
+	}
+
+	return { status: 200, headers: { ...headers, "Content-Type": "application/json" }, body };
+}
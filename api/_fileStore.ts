@@ -0,0 +1,94 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { SubmissionStatus } from "../src/moderationApi";
+import { MemorySubmissionStore, StoreSnapshot, emptySnapshot } from "./_memoryStore";
+import type { CatalogEntry, NewSubmission, SubmissionChanges, SubmissionStore, SubmissionStoreKind } from "./_store";
+
+/** Default for `SUBMISSION_STORE_FILE`, relative to the dev server's working directory. */
+export const DEFAULT_STORE_FILE = ".data/submissions.json";
+
+async function readSnapshot(path: string): Promise<StoreSnapshot> {
+	try {
+		const parsed = JSON.parse(await readFile(path, "utf8")) as Partial<StoreSnapshot>;
+		return {
+			nextId: typeof parsed.nextId === "number" ? parsed.nextId : 1,
+			submissions: Array.isArray(parsed.submissions) ? parsed.submissions : [],
+			catalog: Array.isArray(parsed.catalog) ? parsed.catalog : [],
+		};
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return emptySnapshot();
+		throw error;
+	}
+}
+
+/**
+ * A `MemorySubmissionStore` loaded from, and rewritten to, one JSON file, so local submissions survive
+ * dev server restarts. Writes go to a temp file first and are queued, so a crash never leaves half a file.
+ * Single process only; not for serverless, where the filesystem is read-only.
+ */
+export class FileSubmissionStore implements SubmissionStore {
+	readonly kind: SubmissionStoreKind = "file";
+	private readonly path: string;
+	private loaded: Promise<MemorySubmissionStore> | null = null;
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(path: string = DEFAULT_STORE_FILE) {
+		this.path = path;
+	}
+
+	private store() {
+		this.loaded ??= readSnapshot(this.path).then(
+			(snapshot) => new MemorySubmissionStore(snapshot, (state) => this.persist(state))
+		);
+		return this.loaded;
+	}
+
+	private persist(state: StoreSnapshot) {
+		const json = JSON.stringify(state, null, "\t");
+		this.writes = this.writes
+			.catch(() => {})
+			.then(async () => {
+				await mkdir(dirname(this.path), { recursive: true });
+				const temp = `${this.path}.tmp`;
+				await writeFile(temp, json);
+				await rename(temp, this.path);
+			});
+		return this.writes;
+	}
+
+	async countRecentSubmissions(owner: { ipHash: string | null; sessionId: string | null }, since: string) {
+		return (await this.store()).countRecentSubmissions(owner, since);
+	}
+
+	async hasSubmission(normalizedUrl: string) {
+		return (await this.store()).hasSubmission(normalizedUrl);
+	}
+
+	async insertSubmission(submission: NewSubmission) {
+		return (await this.store()).insertSubmission(submission);
+	}
+
+	async listSubmissions(status: SubmissionStatus) {
+		return (await this.store()).listSubmissions(status);
+	}
+
+	async getSubmission(id: number) {
+		return (await this.store()).getSubmission(id);
+	}
+
+	async updateSubmission(id: number, changes: SubmissionChanges) {
+		return (await this.store()).updateSubmission(id, changes);
+	}
+
+	async listCatalog() {
+		return (await this.store()).listCatalog();
+	}
+
+	async upsertCatalogEntry(entry: CatalogEntry) {
+		return (await this.store()).upsertCatalogEntry(entry);
+	}
+
+	async removeCatalogEntry(submissionId: number) {
+		return (await this.store()).removeCatalogEntry(submissionId);
+	}
+}
@@ -0,0 +1,114 @@
+/** Adapters from Vercel functions and Node/connect middleware onto the shared `ApiRouter` (`_router.ts`). */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+	ApiRequest,
+	ApiResponse,
+	ApiRouter,
+	apiConfigFromEnv,
+	createApiRouter,
+	createApiServices,
+	json,
+} from "./_router";
+
+/** Request bodies past this are refused rather than buffered. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+function send(res: ServerResponse, method: string, response: ApiResponse) {
+	res.statusCode = response.status;
+	for (const [name, value] of Object.entries(response.headers)) {
+		res.setHeader(name, value);
+	}
+	res.end(method === "HEAD" ? undefined : response.body);
+}
+
+function parseJson(text: string): unknown {
+	if (!text) return undefined;
+	try {
+		return JSON.parse(text) as unknown;
+	} catch {
+		return undefined;
+	}
+}
+
+function readBody(req: IncomingMessage): Promise<string | null> {
+	return new Promise((resolve, reject) => {
+		let body = "";
+		let bytes = 0;
+		req.on("data", (chunk: Buffer) => {
+			bytes += chunk.byteLength;
+			if (bytes > MAX_BODY_BYTES) {
+				resolve(null);
+				req.destroy();
+				return;
+			}
+			body += chunk.toString();
+		});
+		req.on("end", () => resolve(body));
+		req.on("error", reject);
+	});
+}
+
+/**
+ * One router per function instance, built from `process.env` on first use. Every file under `api/`
+ * exports this; routing happens on the request path, so the file only decides the URL.
+ */
+let vercelRouter: ApiRouter | null = null;
+
+export async function vercelHandler(req: VercelRequest, res: VercelResponse) {
+	vercelRouter ??= createApiRouter(createApiServices(apiConfigFromEnv(process.env)));
+	const url = new URL(req.url ?? "/", "http://localhost");
+	const method = req.method ?? "GET";
+
+	let body: unknown;
+	try {
+		// Vercel parses JSON lazily and throws on malformed input.
+		body = req.body;
+	} catch {
+		body = undefined;
+	}
+
+	const response = await vercelRouter.handle({
+		method,
+		path: url.pathname,
+		query: url.searchParams,
+		headers: req.headers,
+		body,
+		remoteAddress: req.socket?.remoteAddress ?? null,
+	});
+	send(res, method, response ?? json({ status: 404, body: { error: "Not found" } }));
+}
+
+/** Connect-style middleware for the vite dev server; unknown paths fall through to `next`. */
+export function nodeMiddleware(router: ApiRouter) {
+	return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+		// `originalUrl` keeps any prefix connect stripped when mounted under a path.
+		const url = new URL((req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? "/", "http://localhost");
+		if (!url.pathname.startsWith("/api/")) return next();
+
+		const method = req.method ?? "GET";
+		void (async () => {
+			const text = method === "GET" || method === "HEAD" ? "" : await readBody(req);
+			if (text === null) {
+				send(res, method, json({ status: 413, body: { error: "Request body too large" } }));
+				return;
+			}
+
+			const request: ApiRequest = {
+				method,
+				path: url.pathname,
+				query: url.searchParams,
+				headers: req.headers,
+				body: parseJson(text),
+				remoteAddress: req.socket.remoteAddress ?? null,
+			};
+			const response = await router.handle(request);
+			if (!response) return next();
+			send(res, method, response);
+		})().catch((error) => {
+			console.error("[api dev] Unexpected error", error);
+			send(res, method, json({ status: 500, body: { error: "Server error" } }));
+		});
+	};
+}
@@ -0,0 +1,104 @@
+import type { Submission, SubmissionStatus } from "../src/moderationApi";
+import type {
+	CatalogEntry,
+	NewSubmission,
+	SubmissionChanges,
+	SubmissionStore,
+	SubmissionStoreKind,
+} from "./_store";
+
+/** Everything a store holds; also the JSON file's shape (see `_fileStore.ts`). */
+export interface StoreSnapshot {
+	nextId: number;
+	submissions: (Submission & Pick<NewSubmission, "normalized_url" | "ip_hash" | "session_id">)[];
+	catalog: (CatalogEntry & { created_at: string })[];
+}
+
+export const emptySnapshot = (): StoreSnapshot => ({ nextId: 1, submissions: [], catalog: [] });
+
+const toSubmission = ({ normalized_url, ip_hash, session_id, ...submission }: StoreSnapshot["submissions"][number]) =>
+	structuredClone(submission);
+
+/**
+ * Plain arrays, for tests and for running the whole submit → review → catalog flow without a network.
+ * `onChange` runs after every write with the full state, which is how the file store persists.
+ */
+export class MemorySubmissionStore implements SubmissionStore {
+	readonly kind: SubmissionStoreKind = "memory";
+	protected state: StoreSnapshot;
+	private readonly onChange?: (state: StoreSnapshot) => Promise<void>;
+
+	constructor(initial: StoreSnapshot = emptySnapshot(), onChange?: (state: StoreSnapshot) => Promise<void>) {
+		this.state = structuredClone(initial);
+		this.onChange = onChange;
+	}
+
+	private async changed() {
+		await this.onChange?.(this.state);
+	}
+
+	async countRecentSubmissions(owner: { ipHash: string | null; sessionId: string | null }, since: string) {
+		const sinceMs = Date.parse(since);
+		return this.state.submissions.filter(
+			(row) =>
+				Date.parse(row.created_at) >= sinceMs &&
+				((owner.ipHash !== null && row.ip_hash === owner.ipHash) ||
+					(owner.sessionId !== null && row.session_id === owner.sessionId))
+		).length;
+	}
+
+	async hasSubmission(normalizedUrl: string) {
+		return this.state.submissions.some((row) => row.normalized_url === normalizedUrl);
+	}
+
+	async insertSubmission(submission: NewSubmission) {
+		this.state.submissions.push({
+			...structuredClone(submission),
+			id: this.state.nextId++,
+			status: "pending",
+			created_at: new Date().toISOString(),
+			reviewed_at: null,
+		});
+		await this.changed();
+	}
+
+	async listSubmissions(status: SubmissionStatus) {
+		return this.state.submissions
+			.filter((row) => row.status === status)
+			.sort((a, b) => a.created_at.localeCompare(b.created_at))
+			.map(toSubmission);
+	}
+
+	async getSubmission(id: number) {
+		const row = this.state.submissions.find((candidate) => candidate.id === id);
+		return row ? toSubmission(row) : null;
+	}
+
+	async updateSubmission(id: number, changes: SubmissionChanges) {
+		const row = this.state.submissions.find((candidate) => candidate.id === id);
+		if (!row) return;
+		Object.assign(row, structuredClone(changes));
+		await this.changed();
+	}
+
+	async listCatalog() {
+		return [...this.state.catalog]
+			.sort((a, b) => a.created_at.localeCompare(b.created_at))
+			.map((entry) => structuredClone(entry));
+	}
+
+	async upsertCatalogEntry({ created_at, ...entry }: CatalogEntry) {
+		const existing = this.state.catalog.find((row) => row.submission_id === entry.submission_id);
+		if (existing) {
+			Object.assign(existing, structuredClone(entry));
+		} else {
+			this.state.catalog.push({ ...structuredClone(entry), created_at: new Date().toISOString() });
+		}
+		await this.changed();
+	}
+
+	async removeCatalogEntry(submissionId: number) {
+		this.state.catalog = this.state.catalog.filter((row) => row.submission_id !== submissionId);
+		await this.changed();
+	}
+}
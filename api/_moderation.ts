@@ -0,0 +1,126 @@
+import { timingSafeEqual } from "node:crypto";
+import { LinkTag, isLinkTag } from "../src/linkTags";
+import type { ReviewRequest, Submission, SubmissionStatus } from "../src/moderationApi";
+import { SUBMIT_TAGS_MAX, SUBMIT_TITLE_MAX_LENGTH } from "../src/submitApi";
+import type { SubmissionChanges, SubmissionStore } from "./_store";
+import { unfurlLink } from "./_unfurl";
+
+/**
+ * Review queue over the store's submissions. Approving copies the submission into the catalog,
+ * which is what `/api/links` serves; rejecting an approved one takes it back out.
+ */
+
+export interface ApiResult {
+	status: number;
+	body: unknown;
+}
+
+/** `Authorization: Bearer <ADMIN_TOKEN>`, compared in constant time. No token configured → nobody is admin. */
+export function isAdminRequest(authorization: string | undefined, adminToken: string | undefined): boolean {
+	if (!adminToken || !authorization?.startsWith("Bearer ")) return false;
+	const given = Buffer.from(authorization.slice("Bearer ".length).trim());
+	const expected = Buffer.from(adminToken);
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export async function listSubmissions(
+	store: SubmissionStore,
+	status: SubmissionStatus = "pending"
+): Promise<ApiResult> {
+	try {
+		return { status: 200, body: { submissions: await store.listSubmissions(status) } };
+	} catch (error) {
+		console.error("[admin] Store select error", error);
+		return { status: 500, body: { error: "Failed to load submissions" } };
+	}
+}
+
+/** Narrows an untrusted JSON body; a string is the validation error to send back. */
+export function parseReviewRequest(body: unknown): ReviewRequest | string {
+	const { id, action, title, tags } = (body ?? {}) as Record<string, unknown>;
+
+	if (typeof id !== "number" || !Number.isInteger(id)) return "Missing submission id";
+	if (action !== "approve" && action !== "reject" && action !== "edit") {
+		return "Action must be approve, reject or edit";
+	}
+	if (title !== undefined && (typeof title !== "string" || title.trim().length > SUBMIT_TITLE_MAX_LENGTH)) {
+		return `Title must be text up to ${SUBMIT_TITLE_MAX_LENGTH} characters`;
+	}
+	if (tags !== undefined && (!Array.isArray(tags) || tags.length > SUBMIT_TAGS_MAX || !tags.every(isLinkTag))) {
+		return `Pick up to ${SUBMIT_TAGS_MAX} tags from the taxonomy`;
+	}
+
+	return {
+		id,
+		action,
+		title: typeof title === "string" ? title.trim() : undefined,
+		tags: Array.isArray(tags) ? [...new Set(tags as LinkTag[])] : undefined,
+	};
+}
+
+/** Edits apply first, so approving with a title promotes the edited row; editing an approved row updates the catalog. */
+export async function reviewSubmission(
+	store: SubmissionStore,
+	input: ReviewRequest,
+	{ offline = false }: { offline?: boolean } = {}
+): Promise<ApiResult> {
+	let existing: Submission | null;
+	try {
+		existing = await store.getSubmission(input.id);
+	} catch (error) {
+		console.error("[admin] Store select error", error);
+		return { status: 500, body: { error: "Failed to load submission" } };
+	}
+	if (!existing) {
+		return { status: 404, body: { error: "Submission not found" } };
+	}
+
+	const changes: SubmissionChanges = {};
+	if (input.title !== undefined) changes.title = input.title || null;
+	if (input.tags !== undefined) changes.tags = input.tags;
+	if (input.action !== "edit") {
+		changes.status = input.action === "approve" ? "approved" : "rejected";
+		changes.reviewed_at = new Date().toISOString();
+	}
+	if (input.action === "approve" && !existing.preview && !offline) {
+		// The fetch at submit time may have failed or predate previews; try again before it goes public.
+		const preview = await unfurlLink(existing.url);
+		if (preview) changes.preview = preview;
+	}
+
+	const submission: Submission = { ...existing, ...changes };
+
+	if (input.action === "approve" || (input.action === "edit" && existing.status === "approved")) {
+		try {
+			await store.upsertCatalogEntry({
+				submission_id: submission.id,
+				url: submission.url,
+				title: submission.title || submission.preview?.title || submission.url,
+				tags: submission.tags,
+				note: submission.note,
+				submitter_handle: submission.submitter_handle,
+				preview: submission.preview,
+			});
+		} catch (error) {
+			console.error("[admin] Store catalog insert error", error);
+			return { status: 500, body: { error: "Failed to add to the catalog" } };
+		}
+	} else if (input.action === "reject" && existing.status === "approved") {
+		// Rejecting something already approved takes it back out of the catalog.
+		try {
+			await store.removeCatalogEntry(submission.id);
+		} catch (error) {
+			console.error("[admin] Store catalog delete error", error);
+			return { status: 500, body: { error: "Failed to remove from the catalog" } };
+		}
+	}
+
+	try {
+		await store.updateSubmission(submission.id, changes);
+	} catch (error) {
+		console.error("[admin] Store update error", error);
+		return { status: 500, body: { error: "Failed to update submission" } };
+	}
+
+	return { status: 200, body: { submission } };
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { MemorySubmissionStore } from "./_memoryStore";
+import { ApiRequest, ApiRouter, createApiRouter, createApiServices } from "./_router";
+
+const ADMIN_TOKEN = "test-admin-token";
+
+const request = (overrides: Partial<ApiRequest>): ApiRequest => ({
+	method: "GET",
+	path: "/",
+	query: new URLSearchParams(),
+	headers: {},
+	body: undefined,
+	remoteAddress: "203.0.113.7",
+	...overrides,
+});
+
+describe("createApiRouter", () => {
+	let store: MemorySubmissionStore;
+	let router: ApiRouter;
+
+	beforeEach(() => {
+		store = new MemorySubmissionStore();
+		router = createApiRouter(createApiServices({ adminToken: ADMIN_TOKEN, offline: true }, store));
+	});
+
+	test("falls through on paths it doesn't own", async () => {
+		assert.equal(await router.handle(request({ path: "/index.html" })), null);
+		assert.equal(await router.handle(request({ path: "/api/unknown" })), null);
+	});
+
+	test("answers 405 with Allow for the wrong method", async () => {
+		const response = await router.handle(request({ method: "GET", path: "/api/submit" }));
+		assert.equal(response?.status, 405);
+		assert.equal(response?.headers.Allow, "POST");
+	});
+
+	test("requires the admin token for the review queue", async () => {
+		const missing = await router.handle(request({ path: "/api/admin/submissions" }));
+		assert.equal(missing?.status, 401);
+
+		const wrong = await router.handle(
+			request({ path: "/api/admin/submissions", headers: { authorization: "Bearer nope" } })
+		);
+		assert.equal(wrong?.status, 401);
+		assert.equal(wrong?.headers["Cache-Control"], "no-store");
+	});
+
+	test("stores a submission, and approving it puts it in the catalog", async () => {
+		const submitted = await router.handle(
+			request({
+				method: "POST",
+				path: "/api/submit/",
+				body: { url: "https://example.com/inspiring", title: "Inspiring", tags: ["essay"] },
+			})
+		);
+		assert.equal(submitted?.status, 201);
+
+		const [pending] = await store.listSubmissions("pending");
+		assert.equal(pending.url, "https://example.com/inspiring");
+		assert.deepEqual(pending.tags, ["essay"]);
+
+		const admin = { authorization: `Bearer ${ADMIN_TOKEN}` };
+		const approved = await router.handle(
+			request({
+				method: "POST",
+				path: "/api/admin/submissions",
+				headers: admin,
+				body: { id: pending.id, action: "approve" },
+			})
+		);
+		assert.equal(approved?.status, 200);
+
+		const catalog = await router.handle(request({ path: "/api/links" }));
+		const { links } = JSON.parse(catalog!.body) as { links: { url: string; title: string; addedAt?: string }[] };
+		const link = links.find((candidate) => candidate.url === "https://example.com/inspiring");
+		assert.equal(link?.title, "Inspiring");
+		assert.ok(link?.addedAt);
+	});
+
+	test("rejects a duplicate submission", async () => {
+		const submit = () =>
+			router.handle(request({ method: "POST", path: "/api/submit", body: { url: "https://example.com/twice" } }));
+		assert.equal((await submit())?.status, 201);
+
+		const again = await submit();
+		assert.equal(again?.status, 409);
+		assert.equal((JSON.parse(again!.body) as { code: string }).code, "duplicate");
+	});
+});
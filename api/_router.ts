@@ -0,0 +1,212 @@
+/**
+ * Every `/api/*` endpoint, written once against plain request/response objects. The Vercel functions
+ * (`vercelHandler`) and the vite dev server (`nodeMiddleware`, see `_http.ts`) are thin adapters over
+ * `createApiRouter`, so dev and prod can't drift; `_router.test.ts` drives `router.handle` directly
+ * over a `MemorySubmissionStore`.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { SUBMISSION_STATUSES, SubmissionStatus } from "../src/moderationApi";
+import { SUBMIT_SESSION_HEADER } from "../src/submitApi";
+import { catalogResponse, loadCatalog } from "./_catalog";
+import { FileSubmissionStore } from "./_fileStore";
+import { MemorySubmissionStore } from "./_memoryStore";
+import {
+	ApiResult,
+	isAdminRequest,
+	listSubmissions,
+	parseReviewRequest,
+	reviewSubmission,
+} from "./_moderation";
+import { SUBMISSION_STORE_KINDS, SubmissionStore, SubmissionStoreKind } from "./_store";
+import { clientIpFrom, submitUrl } from "./_submit";
+import { SupabaseSubmissionStore } from "./_supabaseStore";
+
+export type ApiHeaders = Record<string, string | string[] | undefined>;
+
+export interface ApiRequest {
+	method: string;
+	/** Path without the query string, e.g. `/api/submit`. */
+	path: string;
+	query: URLSearchParams;
+	/** Lower-cased names, as Node delivers them. */
+	headers: ApiHeaders;
+	/** Parsed JSON body; `undefined` when there was none or it didn't parse. */
+	body: unknown;
+	/** Socket address, for when no proxy set `x-forwarded-for`. */
+	remoteAddress: string | null;
+}
+
+/** Wire-ready: `body` is already serialized. */
+export interface ApiResponse {
+	status: number;
+	headers: Record<string, string>;
+	body: string;
+}
+
+/** Env vars the endpoints read; `process.env` in functions, `loadEnv` in dev. */
+export interface ApiConfig {
+	supabaseUrl?: string;
+	supabaseKey?: string;
+	adminToken?: string;
+	submitBlocklist?: string;
+	submitIpSalt?: string;
+	/** `SUBMISSION_STORE`; unset means Supabase. */
+	store?: SubmissionStoreKind;
+	/** `SUBMISSION_STORE_FILE`, for the file store. */
+	storeFile?: string;
+	/** `API_OFFLINE=1`: no DNS checks or preview fetches, so the whole flow runs without a network. */
+	offline?: boolean;
+}
+
+export interface ApiServices {
+	config: ApiConfig;
+	/** `null` when the chosen store isn't configured; endpoints answer 500 "Server misconfiguration". */
+	store: SubmissionStore | null;
+}
+
+type RouteHandler = (req: ApiRequest, services: ApiServices) => Promise<ApiResponse>;
+
+interface Route {
+	path: string;
+	methods: string[];
+	/** Log prefix, e.g. `[submit]`. */
+	name: string;
+	handler: RouteHandler;
+}
+
+export interface ApiRouter {
+	/** `null` when no route owns the path, so dev middleware can fall through to vite. */
+	handle(req: ApiRequest): Promise<ApiResponse | null>;
+}
+
+export function apiConfigFromEnv(env: Record<string, string | undefined>): ApiConfig {
+	return {
+		supabaseUrl: env.SUPABASE_URL,
+		supabaseKey: env.SUPABASE_SERVICE_ROLE_KEY,
+		adminToken: env.ADMIN_TOKEN,
+		submitBlocklist: env.SUBMIT_BLOCKLIST,
+		submitIpSalt: env.SUBMIT_IP_SALT,
+		store: SUBMISSION_STORE_KINDS.find((kind) => kind === env.SUBMISSION_STORE),
+		storeFile: env.SUBMISSION_STORE_FILE,
+		offline: env.API_OFFLINE === "1",
+	};
+}
+
+/** Builds the store `config.store` names; pass `store` to skip that (tests hand in a `MemorySubmissionStore`). */
+export function createApiServices(config: ApiConfig, store?: SubmissionStore): ApiServices {
+	if (store) return { config, store };
+
+	switch (config.store ?? "supabase") {
+		case "memory":
+			return { config, store: new MemorySubmissionStore() };
+		case "file":
+			return { config, store: new FileSubmissionStore(config.storeFile) };
+		case "supabase":
+			return {
+				config,
+				store:
+					config.supabaseUrl && config.supabaseKey
+						? new SupabaseSubmissionStore(createClient(config.supabaseUrl, config.supabaseKey))
+						: null,
+			};
+	}
+}
+
+export const json = (
+	{ status, body }: ApiResult,
+	headers: Record<string, string> = {}
+): ApiResponse => ({
+	status,
+	headers: { ...headers, "Content-Type": "application/json" },
+	body: JSON.stringify(body),
+});
+
+const header = (headers: ApiHeaders, name: string) => {
+	const value = headers[name.toLowerCase()];
+	return Array.isArray(value) ? value[0] : value;
+};
+
+const misconfigured = (name: string, body: Record<string, string> = {}) => {
+	console.error(`${name} Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY (or set SUBMISSION_STORE=file)`);
+	return json({ status: 500, body: { error: "Server misconfiguration", ...body } });
+};
+
+const routes: Route[] = [
+	{
+		path: "/api/submit",
+		methods: ["POST"],
+		name: "[submit]",
+		handler: async (req, { config, store }) => {
+			if (!store) return misconfigured("[submit]", { code: "server_error" });
+			const result = await submitUrl(store, req.body, {
+				ip: clientIpFrom(req.headers["x-forwarded-for"], req.remoteAddress),
+				sessionId: header(req.headers, SUBMIT_SESSION_HEADER) ?? null,
+				blocklist: config.submitBlocklist,
+				ipSalt: config.submitIpSalt,
+				offline: config.offline,
+			});
+			return json(result);
+		},
+	},
+	{
+		path: "/api/links",
+		methods: ["GET", "HEAD"],
+		name: "[links]",
+		handler: async (req, { store }) => {
+			if (!store) return misconfigured("[links]");
+			const links = await loadCatalog(store);
+			return catalogResponse(links, req.headers["if-none-match"]);
+		},
+	},
+	{
+		path: "/api/admin/submissions",
+		methods: ["GET", "POST"],
+		name: "[admin]",
+		handler: async (req, { config, store }) => {
+			const noStore = { "Cache-Control": "no-store" };
+			if (!isAdminRequest(header(req.headers, "authorization"), config.adminToken)) {
+				return json({ status: 401, body: { error: "Unauthorized" } }, noStore);
+			}
+			if (!store) return misconfigured("[admin]");
+
+			if (req.method === "GET") {
+				const status = (req.query.get("status") ?? "pending") as SubmissionStatus;
+				if (!SUBMISSION_STATUSES.includes(status)) {
+					return json({ status: 400, body: { error: "Unknown status" } }, noStore);
+				}
+				return json(await listSubmissions(store, status), noStore);
+			}
+
+			const input = parseReviewRequest(req.body);
+			if (typeof input === "string") {
+				return json({ status: 400, body: { error: input } }, noStore);
+			}
+			return json(await reviewSubmission(store, input, { offline: config.offline }), noStore);
+		},
+	},
+];
+
+export function createApiRouter(services: ApiServices): ApiRouter {
+	return {
+		async handle(req) {
+			const path = req.path.replace(/\/+$/, "") || "/";
+			const route = routes.find((candidate) => candidate.path === path);
+			if (!route) return null;
+
+			if (!route.methods.includes(req.method)) {
+				return json(
+					{ status: 405, body: { error: "Method not allowed" } },
+					{ Allow: route.methods.join(", ") }
+				);
+			}
+
+			try {
+				return await route.handler(req, services);
+			} catch (error) {
+				console.error(`${route.name} Unexpected error`, error);
+				return json({ status: 500, body: { error: "Server error" } });
+			}
+		},
+	};
+}
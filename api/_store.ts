@@ -0,0 +1,58 @@
+/**
+ * Persistence behind `/api/*`: submissions plus the catalog of approved ones. Supabase in production
+ * (`_supabaseStore.ts`), a JSON file for offline dev (`_fileStore.ts`), memory for tests (`_memoryStore.ts`).
+ * Every method throws on storage failure; callers log and answer 500.
+ */
+
+import type { LinkPreview } from "../src/linkPreview";
+import type { LinkTag } from "../src/linkTags";
+import type { Submission, SubmissionStatus } from "../src/moderationApi";
+
+export type SubmissionStoreKind = "supabase" | "file" | "memory";
+
+export const SUBMISSION_STORE_KINDS: SubmissionStoreKind[] = ["supabase", "file", "memory"];
+
+/** What `/api/submit` writes; the store fills in `id`, `status: 'pending'` and `created_at`. */
+export interface NewSubmission {
+	url: string;
+	title: string | null;
+	note: string | null;
+	tags: LinkTag[];
+	submitter_handle: string | null;
+	normalized_url: string;
+	ip_hash: string | null;
+	session_id: string | null;
+	preview: LinkPreview | null;
+}
+
+export type SubmissionChanges = Partial<Pick<Submission, "title" | "tags" | "status" | "reviewed_at" | "preview">>;
+
+/** One approved submission as `/api/links` serves it. */
+export interface CatalogEntry {
+	submission_id: number;
+	url: string;
+	title: string;
+	tags: LinkTag[];
+	note: string | null;
+	submitter_handle: string | null;
+	preview: LinkPreview | null;
+	/** Set by the store when the entry is first added; ignored on upsert. */
+	created_at?: string;
+}
+
+export interface SubmissionStore {
+	readonly kind: SubmissionStoreKind;
+	/** Submissions since `since` (ISO) from either the IP hash or the session; both null never matches. */
+	countRecentSubmissions(owner: { ipHash: string | null; sessionId: string | null }, since: string): Promise<number>;
+	hasSubmission(normalizedUrl: string): Promise<boolean>;
+	insertSubmission(submission: NewSubmission): Promise<void>;
+	/** Oldest first. */
+	listSubmissions(status: SubmissionStatus): Promise<Submission[]>;
+	getSubmission(id: number): Promise<Submission | null>;
+	updateSubmission(id: number, changes: SubmissionChanges): Promise<void>;
+	/** Oldest first; re-approving keeps an entry's original position. */
+	listCatalog(): Promise<CatalogEntry[]>;
+	/** Inserts or replaces the entry for `entry.submission_id`. */
+	upsertCatalogEntry(entry: CatalogEntry): Promise<void>;
+	removeCatalogEntry(submissionId: number): Promise<void>;
+}
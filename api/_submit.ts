@@ -0,0 +1,262 @@
+/**
+ * Checks and stores one `/api/submit` payload: validation, rate limiting by IP hash or session,
+ * dedupe by normalized URL, and the unfurled page metadata (see `_unfurl.ts`). IPs are only stored hashed.
+ */
+
+import { createHash } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { inspirationLinks } from "../src/links";
+import { normalizeOrbHref } from "../src/orbHref";
+import { LinkTag, isLinkTag } from "../src/linkTags";
+import {
+	SUBMIT_NOTE_MAX_LENGTH,
+	SUBMIT_TAGS_MAX,
+	SUBMIT_TITLE_MAX_LENGTH,
+	SUBMIT_URL_MAX_LENGTH,
+	SubmitErrorCode,
+	X_HANDLE_PATTERN,
+} from "../src/submitApi";
+import type { ApiResult } from "./_moderation";
+import type { SubmissionStore } from "./_store";
+import { unfurlLink } from "./_unfurl";
+
+/** Shorteners hide the destination from review; the rest are known spam sources. Extend with `SUBMIT_BLOCKLIST`. */
+const BLOCKED_DOMAINS = [
+	"bit.ly",
+	"tinyurl.com",
+	"t.co",
+	"goo.gl",
+	"ow.ly",
+	"is.gd",
+	"buff.ly",
+	"rebrand.ly",
+	"cutt.ly",
+	"shorturl.at",
+];
+
+/** Hostname suffixes that only resolve inside private networks. */
+const PRIVATE_SUFFIXES = [".localhost", ".local", ".internal", ".lan", ".home.arpa"];
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const RATE_LIMIT_MAX = 5;
+
+export interface SubmitContext {
+	/** Client IP as the platform reports it; hashed before it is stored or compared. */
+	ip: string | null;
+	sessionId: string | null;
+	/** Extra blocked domains, comma separated (the `SUBMIT_BLOCKLIST` env var). */
+	blocklist?: string;
+	/** Salt for the IP hash (the `SUBMIT_IP_SALT` env var). */
+	ipSalt?: string;
+	/** Skip the DNS check and the preview fetch (the `API_OFFLINE` env var), for dev without a network. */
+	offline?: boolean;
+}
+
+const reject = (status: number, code: SubmitErrorCode, error: string): ApiResult => ({
+	status,
+	body: { error, code },
+});
+
+/** First hop of `x-forwarded-for`, which Vercel sets to the real client. */
+export function clientIpFrom(forwardedFor: string | string[] | undefined, fallback?: string | null) {
+	const header = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+	return header?.split(",")[0].trim() || fallback || null;
+}
+
+export function isPrivateAddress(address: string): boolean {
+	if (isIP(address) === 4) {
+		const [a, b] = address.split(".").map(Number);
+		return (
+			a === 0 ||
+			a === 10 ||
+			a === 127 ||
+			(a === 100 && b >= 64 && b <= 127) ||
+			(a === 169 && b === 254) ||
+			(a === 172 && b >= 16 && b <= 31) ||
+			(a === 192 && b === 168) ||
+			a >= 224
+		);
+	}
+	const lower = address.toLowerCase();
+	if (lower.startsWith("::ffff:")) return isPrivateAddress(lower.slice("::ffff:".length));
+	return (
+		lower === "::" ||
+		lower === "::1" ||
+		lower.startsWith("fc") ||
+		lower.startsWith("fd") ||
+		lower.startsWith("fe80")
+	);
+}
+
+const matchesDomain = (hostname: string, domain: string) =>
+	hostname === domain || hostname.endsWith(`.${domain}`);
+
+/** Everything that can be decided from the URL alone, plus DNS (unless `resolve` is off) so names pointing inside a network are caught. */
+export async function checkSubmitUrl(
+	raw: unknown,
+	blocklist = "",
+	resolve = true
+): Promise<{ url: string; normalized: string } | ApiResult> {
+	if (typeof raw !== "string" || raw.trim() === "") {
+		return reject(400, "invalid_url", "Invalid URL");
+	}
+	const trimmed = raw.trim();
+	if (trimmed.length > SUBMIT_URL_MAX_LENGTH) {
+		return reject(400, "url_too_long", `URLs can be up to ${SUBMIT_URL_MAX_LENGTH} characters`);
+	}
+
+	let url: URL;
+	try {
+		url = new URL(trimmed);
+	} catch {
+		return reject(400, "invalid_url", "Invalid URL");
+	}
+	if (!["http:", "https:"].includes(url.protocol)) {
+		return reject(400, "unsupported_protocol", "Only http and https URLs are accepted");
+	}
+
+	const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+	const bare = hostname.replace(/^\[|\]$/g, "");
+	if (
+		isIP(bare) !== 0 ||
+		hostname === "localhost" ||
+		!hostname.includes(".") ||
+		PRIVATE_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+	) {
+		return reject(400, "private_host", "Links must point to a public website");
+	}
+
+	const blocked = [
+		...BLOCKED_DOMAINS,
+		...blocklist.split(",").map((domain) => domain.trim().toLowerCase()).filter(Boolean),
+	];
+	if (blocked.some((domain) => matchesDomain(hostname, domain))) {
+		return reject(400, "blocked_domain", "Links from this domain aren't accepted");
+	}
+
+	if (resolve) {
+		try {
+			const addresses = await lookup(hostname, { all: true });
+			if (addresses.some(({ address }) => isPrivateAddress(address))) {
+				return reject(400, "private_host", "Links must point to a public website");
+			}
+		} catch {
+			return reject(400, "unknown_host", "That website couldn't be found");
+		}
+	}
+
+	return { url: trimmed, normalized: normalizeOrbHref(url.href) };
+}
+
+interface ParsedDetails {
+	title: string | null;
+	note: string | null;
+	tags: LinkTag[];
+	handle: string | null;
+}
+
+const optionalText = (value: unknown) =>
+	value === undefined || value === null ? "" : typeof value === "string" ? value.trim() : null;
+
+/** The optional fields; empty strings are stored as null. */
+export function parseSubmitDetails(body: Record<string, unknown>): ParsedDetails | ApiResult {
+	const title = optionalText(body.title);
+	if (title === null || title.length > SUBMIT_TITLE_MAX_LENGTH) {
+		return reject(400, "invalid_title", `Titles can be up to ${SUBMIT_TITLE_MAX_LENGTH} characters`);
+	}
+
+	const note = optionalText(body.note);
+	if (note === null || note.length > SUBMIT_NOTE_MAX_LENGTH) {
+		return reject(400, "invalid_note", `Notes can be up to ${SUBMIT_NOTE_MAX_LENGTH} characters`);
+	}
+
+	const tags = body.tags ?? [];
+	if (!Array.isArray(tags) || tags.length > SUBMIT_TAGS_MAX || !tags.every(isLinkTag)) {
+		return reject(400, "invalid_tags", `Pick up to ${SUBMIT_TAGS_MAX} tags from the list`);
+	}
+
+	const handle = optionalText(body.handle);
+	const handleMatch = handle ? X_HANDLE_PATTERN.exec(handle) : null;
+	if (handle === null || (handle !== "" && !handleMatch)) {
+		return reject(400, "invalid_handle", "That isn't a valid X handle");
+	}
+
+	return {
+		title: title || null,
+		note: note || null,
+		tags: [...new Set(tags)],
+		handle: handleMatch ? handleMatch[1] : null,
+	};
+}
+
+export async function submitUrl(
+	store: SubmissionStore,
+	payload: unknown,
+	context: SubmitContext
+): Promise<ApiResult> {
+	const body = (payload ?? {}) as Record<string, unknown>;
+	const checked = await checkSubmitUrl(body.url, context.blocklist, !context.offline);
+	if (!("normalized" in checked)) return checked;
+	const { url, normalized } = checked;
+
+	const details = parseSubmitDetails(body);
+	if ("status" in details) return details;
+
+	const ipHash = context.ip
+		? createHash("sha256").update(`${context.ipSalt ?? ""}${context.ip}`).digest("hex")
+		: null;
+	// Ends up in a PostgREST filter with the Supabase store, so only plain ids are trusted.
+	const sessionId =
+		context.sessionId && /^[A-Za-z0-9-]{1,64}$/.test(context.sessionId) ? context.sessionId : null;
+
+	if (ipHash || sessionId) {
+		const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString();
+		let count: number;
+		try {
+			count = await store.countRecentSubmissions({ ipHash, sessionId }, since);
+		} catch (error) {
+			console.error("[submit] Store rate limit count error", error);
+			return reject(500, "server_error", "Failed to save submission");
+		}
+		if (count >= RATE_LIMIT_MAX) {
+			return reject(429, "rate_limited", "Too many submissions, try again later");
+		}
+	}
+
+	if (inspirationLinks.some((link) => normalizeOrbHref(link.url) === normalized)) {
+		return reject(409, "duplicate", "That link has already been submitted");
+	}
+	let duplicate: boolean;
+	try {
+		duplicate = await store.hasSubmission(normalized);
+	} catch (error) {
+		console.error("[submit] Store duplicate check error", error);
+		return reject(500, "server_error", "Failed to save submission");
+	}
+	if (duplicate) {
+		return reject(409, "duplicate", "That link has already been submitted");
+	}
+
+	// Unfurled now so the review queue can show it; approval retries if this comes back empty.
+	const preview = context.offline ? null : await unfurlLink(url);
+
+	try {
+		await store.insertSubmission({
+			url,
+			title: details.title,
+			note: details.note,
+			tags: details.tags,
+			submitter_handle: details.handle,
+			normalized_url: normalized,
+			ip_hash: ipHash,
+			session_id: sessionId,
+			preview,
+		});
+	} catch (error) {
+		console.error("[submit] Store insert error", error);
+		return reject(500, "server_error", "Failed to save submission");
+	}
+
+	return { status: 201, body: { ok: true } };
+}
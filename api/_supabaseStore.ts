@@ -0,0 +1,102 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Submission, SubmissionStatus } from "../src/moderationApi";
+import type { CatalogEntry, NewSubmission, SubmissionChanges, SubmissionStore, SubmissionStoreKind } from "./_store";
+
+/**
+ * `submissions` columns: `id`, `url`, `created_at`, `status` ('pending' | 'approved' | 'rejected',
+ * default 'pending'), `title` text, `tags` text[], `reviewed_at` timestamptz, the submitter's `note`
+ * and `submitter_handle` text, `normalized_url`, `ip_hash` and `session_id` text for dedupe and rate
+ * limiting, and `preview` jsonb.
+ */
+export const SUBMISSIONS_TABLE = "submissions";
+
+/** Approved submissions: `title`, `url`, `tags`, `note`, `submitter_handle`, `preview`, `submission_id` (unique), `created_at`. */
+export const CATALOG_TABLE = "links";
+
+const SUBMISSION_COLUMNS = "id, url, title, tags, note, submitter_handle, preview, status, created_at, reviewed_at";
+
+const withTags = (row: Submission): Submission => ({ ...row, tags: row.tags ?? [] });
+
+export class SupabaseSubmissionStore implements SubmissionStore {
+	readonly kind: SubmissionStoreKind = "supabase";
+	private readonly supabase: SupabaseClient;
+
+	constructor(supabase: SupabaseClient) {
+		this.supabase = supabase;
+	}
+
+	async countRecentSubmissions(owner: { ipHash: string | null; sessionId: string | null }, since: string) {
+		// Both go into a PostgREST filter string; `submitUrl` only passes hex hashes and plain ids.
+		const owners = [owner.ipHash && `ip_hash.eq.${owner.ipHash}`, owner.sessionId && `session_id.eq.${owner.sessionId}`]
+			.filter(Boolean)
+			.join(",");
+		if (!owners) return 0;
+
+		const { count, error } = await this.supabase
+			.from(SUBMISSIONS_TABLE)
+			.select("id", { count: "exact", head: true })
+			.or(owners)
+			.gte("created_at", since);
+		if (error) throw error;
+		return count ?? 0;
+	}
+
+	async hasSubmission(normalizedUrl: string) {
+		const { data, error } = await this.supabase
+			.from(SUBMISSIONS_TABLE)
+			.select("id")
+			.eq("normalized_url", normalizedUrl)
+			.limit(1);
+		if (error) throw error;
+		return (data ?? []).length > 0;
+	}
+
+	async insertSubmission(submission: NewSubmission) {
+		const { error } = await this.supabase.from(SUBMISSIONS_TABLE).insert(submission);
+		if (error) throw error;
+	}
+
+	async listSubmissions(status: SubmissionStatus) {
+		const { data, error } = await this.supabase
+			.from(SUBMISSIONS_TABLE)
+			.select(SUBMISSION_COLUMNS)
+			.eq("status", status)
+			.order("created_at", { ascending: true });
+		if (error) throw error;
+		return ((data ?? []) as Submission[]).map(withTags);
+	}
+
+	async getSubmission(id: number) {
+		const { data, error } = await this.supabase
+			.from(SUBMISSIONS_TABLE)
+			.select(SUBMISSION_COLUMNS)
+			.eq("id", id)
+			.maybeSingle();
+		if (error) throw error;
+		return data ? withTags(data as Submission) : null;
+	}
+
+	async updateSubmission(id: number, changes: SubmissionChanges) {
+		const { error } = await this.supabase.from(SUBMISSIONS_TABLE).update(changes).eq("id", id);
+		if (error) throw error;
+	}
+
+	async listCatalog() {
+		const { data, error } = await this.supabase
+			.from(CATALOG_TABLE)
+			.select("submission_id, title, url, tags, note, submitter_handle, preview, created_at")
+			.order("created_at", { ascending: true });
+		if (error) throw error;
+		return ((data ?? []) as CatalogEntry[]).map((row) => ({ ...row, tags: row.tags ?? [] }));
+	}
+
+	async upsertCatalogEntry({ created_at, ...entry }: CatalogEntry) {
+		const { error } = await this.supabase.from(CATALOG_TABLE).upsert(entry, { onConflict: "submission_id" });
+		if (error) throw error;
+	}
+
+	async removeCatalogEntry(submissionId: number) {
+		const { error } = await this.supabase.from(CATALOG_TABLE).delete().eq("submission_id", submissionId);
+		if (error) throw error;
+	}
+}
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import { parsePreviewHtml, publicOnlyLookup, unfurlLink, type UnfurlOptions } from "./_unfurl";
+
+describe("parsePreviewHtml", () => {
+	test("prefers OpenGraph, decodes entities and resolves relative URLs", () => {
+		const preview = parsePreviewHtml(
+			`<html><head>
+				<title>Fallback</title>
+				<meta property="og:title" content="Tom &amp; Jerry&#39;s &#x2014; page">
+				<meta name="description" content="  Spread
+					over lines  ">
+				<meta property="og:image" content="/cover.png">
+				<link rel="icon" href="favicon.svg">
+			</head><body><meta property="og:title" content="Body tag"></body></html>`,
+			"https://www.example.com/posts/1"
+		);
+		assert.deepEqual(preview, {
+			title: "Tom & Jerry's — page",
+			description: "Spread over lines",
+			siteName: "example.com",
+			image: "https://www.example.com/cover.png",
+			favicon: "https://www.example.com/posts/favicon.svg",
+		});
+	});
+
+	test("falls back to <title>, Twitter tags and /favicon.ico", () => {
+		const preview = parsePreviewHtml(
+			`<head><title> Plain
+				title </title><meta name="twitter:description" content="From Twitter"></head>`,
+			"https://example.com/a"
+		);
+		assert.equal(preview?.title, "Plain title");
+		assert.equal(preview?.description, "From Twitter");
+		assert.equal(preview?.favicon, "https://example.com/favicon.ico");
+	});
+
+	test("drops non-http image URLs", () => {
+		const preview = parsePreviewHtml(
+			`<head><meta property="og:image" content="javascript:alert(1)"></head>`,
+			"https://example.com/"
+		);
+		assert.equal(preview?.image, undefined);
+	});
+});
+
+describe("unfurlLink", () => {
+	let server: Server;
+	let origin: string;
+	const options: UnfurlOptions = { fetch, allowUrl: (url) => !url.includes("/blocked"), timeoutMs: 500 };
+
+	before(async () => {
+		server = createServer((req, res) => {
+			switch (req.url) {
+				case "/page":
+					res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+					res.end(`<head><meta property="og:title" content="Stub page"></head>`);
+					return;
+				case "/hop":
+					res.writeHead(302, { Location: "/page" });
+					res.end();
+					return;
+				case "/loop":
+					res.writeHead(301, { Location: "/loop" });
+					res.end();
+					return;
+				case "/to-blocked":
+					res.writeHead(302, { Location: "/blocked" });
+					res.end();
+					return;
+				case "/json":
+					res.writeHead(200, { "Content-Type": "application/json" });
+					res.end(`{"title":"not a page"}`);
+					return;
+				case "/missing":
+					res.writeHead(404, { "Content-Type": "text/html" });
+					res.end(`<head><title>Not found</title></head>`);
+					return;
+				case "/huge":
+					// Never closes the head or the response: only the size cap ends the read.
+					res.writeHead(200, { "Content-Type": "text/html" });
+					res.write(`<head><title>Huge</title>`);
+					res.write(`<meta name="filler" content="${"x".repeat(512 * 1024)}">`);
+					return;
+				case "/slow":
+					return;
+				default:
+					res.writeHead(500);
+					res.end();
+			}
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	after(() => {
+		server.closeAllConnections();
+		server.close();
+	});
+
+	test("reads the preview from an HTML page", async () => {
+		const preview = await unfurlLink(`${origin}/page`, options);
+		assert.equal(preview?.title, "Stub page");
+		assert.equal(preview?.favicon, `${origin}/favicon.ico`);
+	});
+
+	test("follows redirects", async () => {
+		assert.equal((await unfurlLink(`${origin}/hop`, options))?.title, "Stub page");
+	});
+
+	test("gives up after too many redirects", async () => {
+		assert.equal(await unfurlLink(`${origin}/loop`, options), null);
+	});
+
+	test("checks every redirect hop", async () => {
+		assert.equal(await unfurlLink(`${origin}/to-blocked`, options), null);
+	});
+
+	test("ignores non-HTML and error responses", async () => {
+		assert.equal(await unfurlLink(`${origin}/json`, options), null);
+		assert.equal(await unfurlLink(`${origin}/missing`, options), null);
+	});
+
+	test("stops reading an oversized head", async () => {
+		assert.equal((await unfurlLink(`${origin}/huge`, { ...options, timeoutMs: 5000 }))?.title, "Huge");
+	});
+
+	test("times out on a server that never answers", async () => {
+		const started = Date.now();
+		assert.equal(await unfurlLink(`${origin}/slow`, { ...options, timeoutMs: 100 }), null);
+		assert.ok(Date.now() - started < 2000);
+	});
+
+	test("refuses private hosts by default", async () => {
+		assert.equal(await unfurlLink(`${origin}/page`), null);
+	});
+
+	test("only connects to public addresses, whatever the URL check allowed", async () => {
+		const port = (server.address() as AddressInfo).port;
+		assert.equal(await unfurlLink(`http://localhost:${port}/page`, { allowUrl: () => true }), null);
+	});
+});
+
+describe("publicOnlyLookup", () => {
+	test("fails names that resolve to a private address", async () => {
+		const error = await new Promise<NodeJS.ErrnoException | null>((resolve) =>
+			publicOnlyLookup("localhost", {}, (error) => resolve(error))
+		);
+		assert.equal(error?.code, "EPRIVATEHOST");
+	});
+});
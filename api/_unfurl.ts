@@ -0,0 +1,202 @@
+/**
+ * Fetches a submitted page's `<head>` and pulls out what the orb hover card shows: OpenGraph /
+ * Twitter title, description, site name and image, plus the favicon. Every hop (including
+ * redirects) goes through `checkSubmitUrl`'s URL rules, and the connection itself only opens to
+ * addresses `publicOnlyLookup` has checked, so a public link can't bounce the fetch into a private network.
+ */
+
+import { lookup, type LookupAddress, type LookupAllOptions } from "node:dns";
+import { Agent, fetch as undiciFetch } from "undici";
+import { LinkPreview, parseLinkPreview } from "../src/linkPreview";
+import { checkSubmitUrl, isPrivateAddress } from "./_submit";
+
+const UNFURL_TIMEOUT_MS = 4000;
+const UNFURL_MAX_REDIRECTS = 3;
+/** Enough for any sane `<head>`; the rest of the page is never read. */
+const UNFURL_MAX_BYTES = 256 * 1024;
+const UNFURL_USER_AGENT = "Mozilla/5.0 (compatible; GrasslandsPreview/1.0)";
+
+type Attributes = Record<string, string>;
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * `dns.lookup` for the unfurl agent: resolves and rejects private addresses in the same step, so the
+ * address that passed is the one connected to. Checking first and letting `fetch` resolve again
+ * would let a DNS-rebinding host answer differently the second time.
+ */
+export function publicOnlyLookup(hostname: string, options: LookupAllOptions | object, callback: LookupCallback) {
+	lookup(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) return callback(error, []);
+		if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+			const blocked: NodeJS.ErrnoException = new Error(`${hostname} does not resolve to a public address`);
+			blocked.code = "EPRIVATEHOST";
+			return callback(blocked, []);
+		}
+		if ((options as LookupAllOptions).all) return callback(null, addresses);
+		callback(null, addresses[0].address, addresses[0].family);
+	});
+}
+
+/** The subset of `fetch` unfurling uses; tests pass a plain one aimed at a local server. */
+export type UnfurlFetch = (
+	url: string,
+	init: { redirect: "manual"; signal: AbortSignal; headers: Record<string, string> }
+) => Promise<Response>;
+
+let publicAgent: Agent | null = null;
+
+const publicFetch: UnfurlFetch = (url, init) => {
+	publicAgent ??= new Agent({ connect: { lookup: publicOnlyLookup } });
+	return undiciFetch(url, { ...init, dispatcher: publicAgent }) as unknown as Promise<Response>;
+};
+
+/** `checkSubmitUrl` without its DNS lookup: `publicOnlyLookup` checks the addresses actually connected to. */
+const isPublicUrl = async (url: string) => "normalized" in (await checkSubmitUrl(url, "", false));
+
+export interface UnfurlOptions {
+	fetch?: UnfurlFetch;
+	/** Per-hop URL check, redirects included. */
+	allowUrl?: (url: string) => boolean | Promise<boolean>;
+	timeoutMs?: number;
+}
+
+const ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity[0] !== "#") return ENTITIES[entity.toLowerCase()] ?? match;
+		const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+		return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+	});
+}
+
+function parseAttributes(tag: string): Attributes {
+	const attributes: Attributes = {};
+	const pattern = /([a-zA-Z_:][-\w:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+	for (const [, name, double, single, bare] of tag.matchAll(pattern)) {
+		attributes[name.toLowerCase()] = decodeEntities(double ?? single ?? bare ?? "");
+	}
+	return attributes;
+}
+
+const resolveUrl = (href: string | undefined, base: string) => {
+	if (!href) return undefined;
+	try {
+		const url = new URL(href, base);
+		return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/** Reads the preview fields out of a page's `<head>`; relative URLs resolve against `pageUrl`. */
+export function parsePreviewHtml(html: string, pageUrl: string): LinkPreview | undefined {
+	const head = html.split(/<\/head\s*>/i)[0];
+
+	const meta = new Map<string, string>();
+	for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+		const attributes = parseAttributes(tag);
+		const key = (attributes.property ?? attributes.name)?.toLowerCase();
+		if (key && attributes.content !== undefined && !meta.has(key)) meta.set(key, attributes.content);
+	}
+
+	let favicon: string | undefined;
+	for (const [tag] of head.matchAll(/<link\b[^>]*>/gi)) {
+		const attributes = parseAttributes(tag);
+		const rel = (attributes.rel ?? "").toLowerCase().split(/\s+/);
+		if (rel.includes("icon") || rel.includes("apple-touch-icon")) {
+			favicon = resolveUrl(attributes.href, pageUrl);
+			if (rel.includes("icon") && favicon) break;
+		}
+	}
+
+	const titleTag = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(head)?.[1];
+	const pick = (...keys: string[]) => {
+		for (const key of keys) {
+			const value = meta.get(key)?.replace(/\s+/g, " ").trim();
+			if (value) return value;
+		}
+		return undefined;
+	};
+
+	return parseLinkPreview({
+		title: pick("og:title", "twitter:title") ?? (titleTag && decodeEntities(titleTag).replace(/\s+/g, " ")),
+		description: pick("og:description", "twitter:description", "description"),
+		siteName: pick("og:site_name", "application-name") ?? new URL(pageUrl).hostname.replace(/^www\./, ""),
+		image: resolveUrl(pick("og:image:secure_url", "og:image", "twitter:image", "twitter:image:src"), pageUrl),
+		favicon: favicon ?? resolveUrl("/favicon.ico", pageUrl),
+	});
+}
+
+async function readHead(response: Response): Promise<string> {
+	if (!response.body) return "";
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let html = "";
+	let bytes = 0;
+	while (bytes < UNFURL_MAX_BYTES) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		bytes += value.byteLength;
+		html += decoder.decode(value, { stream: true });
+		if (/<\/head\s*>/i.test(html)) break;
+	}
+	await reader.cancel().catch(() => {});
+	return html;
+}
+
+/**
+ * Best effort: any failure (timeout, non-HTML, blocked redirect, unreachable) is logged and gives
+ * `null`, so a submission or approval never fails because the target page is slow or odd.
+ */
+export async function unfurlLink(
+	url: string,
+	{ fetch = publicFetch, allowUrl = isPublicUrl, timeoutMs = UNFURL_TIMEOUT_MS }: UnfurlOptions = {}
+): Promise<LinkPreview | null> {
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeoutMs);
+	try {
+		let current = url;
+		for (let hop = 0; hop <= UNFURL_MAX_REDIRECTS; hop++) {
+			if (!(await allowUrl(current))) return null;
+
+			const response = await fetch(current, {
+				redirect: "manual",
+				signal: controller.signal,
+				headers: {
+					Accept: "text/html,application/xhtml+xml",
+					"User-Agent": UNFURL_USER_AGENT,
+				},
+			});
+
+			if (response.status >= 300 && response.status < 400) {
+				const location = resolveUrl(response.headers.get("location") ?? undefined, current);
+				await response.body?.cancel().catch(() => {});
+				if (!location) return null;
+				current = location;
+				continue;
+			}
+
+			const contentType = response.headers.get("content-type") ?? "";
+			if (!response.ok || !/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+				await response.body?.cancel().catch(() => {});
+				return null;
+			}
+			return parsePreviewHtml(await readHead(response), current) ?? null;
+		}
+		return null;
+	} catch (error) {
+		console.warn("[unfurl] Could not fetch a preview for", url, error);
+		return null;
+	} finally {
+		clearTimeout(timer);
+	}
+}
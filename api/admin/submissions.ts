@@ -0,0 +1,4 @@
+import { vercelHandler } from "../_http";
+
+/** GET `?status=pending|approved|rejected` lists the queue; POST `{ id, action, title?, tags? }` reviews one. Routed by `_router.ts`. */
+export default vercelHandler;
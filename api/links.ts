@@ -0,0 +1,4 @@
+import { vercelHandler } from "./_http";
+
+/** GET/HEAD the inspiration catalog with ETag revalidation; see `_catalog.ts`. Routed by `_router.ts`. */
+export default vercelHandler;
@@ -0,0 +1,122 @@
+import * as THREE from "three";
+import { createRoot, type Root } from "react-dom/client";
+import { DRACOLoader } from "three/examples/jsm/loaders/DRACOLoader.js";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+
+import { BootOverlay, BootOverlayState } from "./ui/BootOverlay";
+
+/** Matches the decoder three r159's examples ship; served from Google's CDN so it isn't bundled. */
+const DRACO_DECODER_PATH = "https://www.gstatic.com/draco/versioned/decoders/1.5.6/";
+const DECODER_WORKERS = 2;
+
+/** glTF loader whose Draco and Meshopt decoding runs in worker pools rather than on the main thread. */
+export function createSceneGLTFLoader(manager: THREE.LoadingManager): GLTFLoader {
+	const dracoLoader = new DRACOLoader(manager);
+	dracoLoader.setDecoderPath(DRACO_DECODER_PATH);
+	dracoLoader.setWorkerLimit(DECODER_WORKERS);
+
+	// three's copy of the decoder has `useWorkers`; the typings come from an older meshoptimizer.
+	const meshopt = MeshoptDecoder as typeof MeshoptDecoder & { useWorkers?: (count: number) => void };
+	if (typeof Worker !== "undefined") {
+		meshopt.useWorkers?.(DECODER_WORKERS);
+	}
+
+	return new GLTFLoader(manager).setDRACOLoader(dracoLoader).setMeshoptDecoder(MeshoptDecoder);
+}
+
+const fileName = (url: string) => url.split(/[?#]/)[0].split("/").pop() || url;
+
+/**
+ * Progress overlay for the initial asset load, fed by the scene's `LoadingManager`. `run` shows it
+ * until the load resolves; a failure names the asset that broke and offers a retry of the whole load.
+ */
+export class BootSequence {
+	/** Resolves once, when the first load attempt succeeds. Never rejects. */
+	readonly ready: Promise<void>;
+
+	private readonly root: Root;
+	private resolveReady!: () => void;
+	private load: (() => Promise<void>) | null = null;
+	private attempt: Promise<void> | null = null;
+	private failedUrl: string | null = null;
+	/** `LoadingManager` counts across its whole life; progress is shown relative to the attempt's start. */
+	private counts = { loaded: 0, total: 0 };
+	private attemptStart = { loaded: 0, total: 0 };
+	private state: BootOverlayState = { phase: "loading", progress: 0, label: "Loading the island…" };
+
+	constructor(manager: THREE.LoadingManager) {
+		this.ready = new Promise((resolve) => {
+			this.resolveReady = resolve;
+		});
+
+		const mount = document.createElement("div");
+		mount.className = "boot-overlay-mount";
+		document.body.appendChild(mount);
+		this.root = createRoot(mount);
+
+		manager.onStart = (_url, loaded, total) => {
+			this.counts = { loaded, total };
+		};
+		manager.onProgress = (url, loaded, total) => {
+			this.counts = { loaded, total };
+			if (this.state.phase !== "loading") return;
+			const done = loaded - this.attemptStart.loaded;
+			const of = total - this.attemptStart.total;
+			this.setState({
+				phase: "loading",
+				progress: of > 0 ? Math.min(done / of, 1) : 0,
+				label: `Loading ${fileName(url)} (${done}/${of})`,
+			});
+		};
+		manager.onError = (url) => {
+			this.failedUrl ??= url;
+		};
+
+		this.render();
+	}
+
+	/** Shows the overlay and runs `load`; the same callback is re-run by the retry button. */
+	public run(load: () => Promise<void>) {
+		this.load = load;
+		return this.retry();
+	}
+
+	public retry(): Promise<void> {
+		if (!this.load) return Promise.resolve();
+		if (this.attempt) return this.attempt;
+
+		const load = this.load;
+		this.failedUrl = null;
+		this.attemptStart = { ...this.counts };
+		this.setState({ phase: "loading", progress: 0, label: "Loading the island…" });
+
+		this.attempt = load()
+			.then(() => {
+				this.setState({ phase: "ready" });
+				this.resolveReady();
+			})
+			.catch((error) => {
+				console.error("[boot] Scene failed to load", error);
+				this.setState({
+					phase: "error",
+					message: this.failedUrl
+						? `Couldn't load ${fileName(this.failedUrl)}. Check your connection and try again.`
+						: "The island couldn't be set up. Try again.",
+				});
+			})
+			.finally(() => {
+				this.attempt = null;
+			});
+		return this.attempt;
+	}
+
+	private setState(state: BootOverlayState) {
+		this.state = state;
+		this.render();
+	}
+
+	private render() {
+		this.root.render(<BootOverlay state={this.state} onRetry={() => void this.retry()} />);
+	}
+}
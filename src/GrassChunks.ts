@@ -0,0 +1,136 @@
+import * as THREE from "three";
+
+export interface GrassChunkOptions {
+	/** Side of a square chunk in world units. */
+	chunkSize?: number;
+	/** Camera distances where LOD n hands over to LOD n + 1. */
+	lodDistances?: number[];
+	/** Share of a chunk's blades drawn at each LOD; far chunks thin out as well as simplify. */
+	lodDensities?: number[];
+	/** Headroom above the terrain so blade tips and wind sway stay inside chunk bounds. */
+	bladeHeight?: number;
+}
+
+interface GrassChunk {
+	mesh: THREE.InstancedMesh;
+	bounds: THREE.Box3;
+	instanceCount: number;
+	lod: number;
+}
+
+/**
+ * Grass split into square chunks, one `InstancedMesh` each. Every frame a chunk is frustum
+ * culled against the camera and picks a LOD geometry (and blade count) by distance.
+ */
+export class GrassChunks {
+	readonly group = new THREE.Group();
+
+	private readonly lods: THREE.BufferGeometry[];
+	private readonly material: THREE.Material;
+	private readonly chunkSize: number;
+	private readonly lodDistances: number[];
+	private readonly lodDensities: number[];
+	private readonly bladeHeight: number;
+	private chunks: GrassChunk[] = [];
+	/** Share of every chunk's instance pool drawn before LOD thinning. */
+	private density = 1;
+	private readonly frustum = new THREE.Frustum();
+	private readonly projectionView = new THREE.Matrix4();
+
+	/** `lods` runs from most to least detailed. */
+	constructor(lods: THREE.BufferGeometry[], material: THREE.Material, options: GrassChunkOptions = {}) {
+		this.lods = lods;
+		this.material = material;
+		this.chunkSize = options.chunkSize ?? 8;
+		this.lodDistances = options.lodDistances ?? [12, 28];
+		this.lodDensities = options.lodDensities ?? [1, 0.65, 0.35];
+		this.bladeHeight = options.bladeHeight ?? 2;
+	}
+
+	/**
+	 * Replaces every chunk from packed 4×4 matrices (see `placeGrass`). Instances are bucketed by
+	 * the xz cell their translation falls in and copied straight into each chunk's `instanceMatrix`.
+	 */
+	build(matrices: Float32Array, count: number) {
+		this.clear();
+
+		const buckets = new Map<string, number[]>();
+		for (let i = 0; i < count; i++) {
+			const x = matrices[i * 16 + 12];
+			const z = matrices[i * 16 + 14];
+			const key = `${Math.floor(x / this.chunkSize)}:${Math.floor(z / this.chunkSize)}`;
+			const bucket = buckets.get(key);
+			if (bucket) {
+				bucket.push(i);
+			} else {
+				buckets.set(key, [i]);
+			}
+		}
+
+		const position = new THREE.Vector3();
+		for (const bucket of buckets.values()) {
+			const mesh = new THREE.InstancedMesh(this.lods[0], this.material, bucket.length);
+			const instanceMatrices = mesh.instanceMatrix.array as Float32Array;
+			const bounds = new THREE.Box3();
+
+			bucket.forEach((source, i) => {
+				instanceMatrices.set(matrices.subarray(source * 16, source * 16 + 16), i * 16);
+				bounds.expandByPoint(position.fromArray(matrices, source * 16 + 12));
+			});
+			mesh.instanceMatrix.needsUpdate = true;
+			bounds.max.y += this.bladeHeight;
+			bounds.expandByScalar(0.5);
+
+			mesh.receiveShadow = true;
+			// Culling happens per chunk in `update`, against bounds that don't change with the LOD.
+			mesh.frustumCulled = false;
+			this.group.add(mesh);
+			this.chunks.push({ mesh, bounds, instanceCount: bucket.length, lod: 0 });
+		}
+	}
+
+	update(camera: THREE.Camera) {
+		this.projectionView.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+		this.frustum.setFromProjectionMatrix(this.projectionView);
+
+		for (const chunk of this.chunks) {
+			chunk.mesh.visible = this.frustum.intersectsBox(chunk.bounds);
+			if (!chunk.mesh.visible) continue;
+
+			const distance = chunk.bounds.distanceToPoint(camera.position);
+			let lod = this.lodDistances.findIndex((limit) => distance < limit);
+			if (lod === -1) lod = this.lodDistances.length;
+			lod = Math.min(lod, this.lods.length - 1);
+
+			if (lod !== chunk.lod) {
+				chunk.mesh.geometry = this.lods[lod];
+				chunk.lod = lod;
+			}
+			// Instances were sampled in random order, so any prefix is an even thinning.
+			const density = this.density * this.lodDensities[Math.min(lod, this.lodDensities.length - 1)];
+			chunk.mesh.count = Math.ceil(chunk.instanceCount * density);
+		}
+	}
+
+	/** 0–1 share of the placed pool to draw; cheap enough to drive from a slider every frame. */
+	setDensity(density: number) {
+		this.density = THREE.MathUtils.clamp(density, 0, 1);
+	}
+
+	/** Blades submitted last `update`, for stats readouts. */
+	getVisibleInstanceCount() {
+		return this.chunks.reduce(
+			(total, chunk) => total + (chunk.mesh.visible ? chunk.mesh.count : 0),
+			0
+		);
+	}
+
+	/** Geometries and material are shared and owned by the caller; only instance buffers go. */
+	clear() {
+		for (const chunk of this.chunks) {
+			chunk.mesh.dispose();
+			this.group.remove(chunk.mesh);
+		}
+		this.chunks = [];
+	}
+}
@@ -0,0 +1,308 @@
+import * as THREE from "three";
+import type { GrassDensityMap } from "./grassPlacement";
+
+export type GrassMaskChannel = "density" | "height" | "tint";
+
+export const GRASS_MASK_CHANNELS: GrassMaskChannel[] = ["density", "height", "tint"];
+
+export type GrassBrushMode = "add" | "erase";
+
+export interface GrassBrush {
+	/** World units. */
+	radius: number;
+	/** 0–1 opacity of one dab. */
+	strength: number;
+	mode: GrassBrushMode;
+	/** Tint colour (`#rrggbb`); ignored by density and height. */
+	color: string;
+}
+
+/**
+ * Density: white = full, black = cleared. Height: mid grey = unchanged, 0–2× either side.
+ * Tint: transparent = untouched, alpha = how far blade tips (and soil) move toward the colour.
+ */
+const CLEAR_FILL: Record<GrassMaskChannel, string> = {
+	density: "#ffffff",
+	height: "#808080",
+	tint: "rgba(0, 0, 0, 0)",
+};
+
+const HISTORY_LIMIT = 30;
+
+interface MaskSnapshot {
+	channel: GrassMaskChannel;
+	image: ImageData;
+}
+
+/**
+ * Paintable masks over a square centred on the world origin (same mapping as `GrassTrail`).
+ * Each mask is a 2D canvas behind a `CanvasTexture`, so painting and PNG round-trips are plain
+ * canvas calls. Undo/redo keeps a full snapshot per stroke.
+ */
+export class GrassMasks {
+	readonly worldSize: number;
+	readonly textures: Record<GrassMaskChannel, THREE.CanvasTexture>;
+	/**
+	 * The density mask as of the last grass placement. Placement already thinned blades by it, so the
+	 * shader only culls where the painted mask has dropped below it since (live feedback until re-placement).
+	 */
+	readonly placedDensity: THREE.DataTexture;
+
+	private readonly resolution: number;
+	private readonly canvases: Record<GrassMaskChannel, HTMLCanvasElement>;
+	private readonly contexts: Record<GrassMaskChannel, CanvasRenderingContext2D>;
+	private undoStack: MaskSnapshot[] = [];
+	private redoStack: MaskSnapshot[] = [];
+	private stroke: { channel: GrassMaskChannel; last: THREE.Vector2 | null } | null = null;
+	private onDensityChange?: () => void;
+
+	constructor(resolution = 512, worldSize = 80) {
+		this.resolution = resolution;
+		this.worldSize = worldSize;
+
+		const canvases = {} as Record<GrassMaskChannel, HTMLCanvasElement>;
+		const contexts = {} as Record<GrassMaskChannel, CanvasRenderingContext2D>;
+		const textures = {} as Record<GrassMaskChannel, THREE.CanvasTexture>;
+
+		for (const channel of GRASS_MASK_CHANNELS) {
+			const canvas = document.createElement("canvas");
+			canvas.width = resolution;
+			canvas.height = resolution;
+			const context = canvas.getContext("2d", { willReadFrequently: true })!;
+			context.fillStyle = CLEAR_FILL[channel];
+			context.fillRect(0, 0, resolution, resolution);
+
+			const texture = new THREE.CanvasTexture(canvas);
+			// Canvas row 0 is world -z, matching `worldToCanvas` and the shader's mask UVs.
+			texture.flipY = false;
+			texture.colorSpace = channel === "tint" ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+
+			canvases[channel] = canvas;
+			contexts[channel] = context;
+			textures[channel] = texture;
+		}
+
+		this.canvases = canvases;
+		this.contexts = contexts;
+		this.textures = textures;
+
+		// White until the first placement: nothing placed yet, so the shader culls by the mask alone.
+		this.placedDensity = new THREE.DataTexture(
+			new Uint8Array(resolution * resolution).fill(255),
+			resolution,
+			resolution,
+			THREE.RedFormat
+		);
+		this.placedDensity.magFilter = THREE.LinearFilter;
+		this.placedDensity.needsUpdate = true;
+	}
+
+	/** Called after a density stroke, undo/redo, clear or import; not during a stroke. */
+	public setDensityChangeHandler(handler?: () => void) {
+		this.onDensityChange = handler;
+	}
+
+	/** Red channel of the density mask, copied so it can be posted to the placement worker. */
+	public readDensity(): GrassDensityMap {
+		const { data } = this.contexts.density.getImageData(0, 0, this.resolution, this.resolution);
+		const density = new Uint8Array(this.resolution * this.resolution);
+		for (let i = 0; i < density.length; i++) {
+			density[i] = data[i * 4];
+		}
+		return { data: density, width: this.resolution, height: this.resolution, worldSize: this.worldSize };
+	}
+
+	/** Records the map a placement used; see `placedDensity`. */
+	public setPlacedDensity(map: GrassDensityMap) {
+		this.placedDensity.image.data.set(map.data);
+		this.placedDensity.needsUpdate = true;
+	}
+
+	public canUndo() {
+		return this.undoStack.length > 0;
+	}
+
+	public canRedo() {
+		return this.redoStack.length > 0;
+	}
+
+	/** Snapshots the mask so the whole stroke undoes as one step. */
+	public beginStroke(channel: GrassMaskChannel) {
+		this.endStroke();
+		this.pushSnapshot(this.undoStack, channel);
+		this.redoStack = [];
+		this.stroke = { channel, last: null };
+	}
+
+	/** Dabs at a world position, filling the gap from the previous dab so fast drags stay solid. */
+	public paint(x: number, z: number, brush: GrassBrush) {
+		if (!this.stroke) return;
+
+		const point = this.worldToCanvas(x, z);
+		const radius = (brush.radius / this.worldSize) * this.resolution;
+		const last = this.stroke.last ?? point;
+		const steps = Math.max(Math.ceil(last.distanceTo(point) / Math.max(radius * 0.25, 1)), 1);
+
+		for (let i = 1; i <= steps; i++) {
+			const t = i / steps;
+			this.dab(
+				this.stroke.channel,
+				THREE.MathUtils.lerp(last.x, point.x, t),
+				THREE.MathUtils.lerp(last.y, point.y, t),
+				radius,
+				brush
+			);
+		}
+
+		this.stroke.last = point;
+		this.textures[this.stroke.channel].needsUpdate = true;
+	}
+
+	public endStroke() {
+		const channel = this.stroke?.channel;
+		this.stroke = null;
+		if (channel === "density") {
+			this.onDensityChange?.();
+		}
+	}
+
+	public undo() {
+		this.restore(this.undoStack, this.redoStack);
+	}
+
+	public redo() {
+		this.restore(this.redoStack, this.undoStack);
+	}
+
+	/** Resets one mask to its neutral fill; undoable. */
+	public clear(channel: GrassMaskChannel) {
+		this.beginStroke(channel);
+		const context = this.contexts[channel];
+		context.save();
+		context.globalCompositeOperation = "copy";
+		context.fillStyle = CLEAR_FILL[channel];
+		context.fillRect(0, 0, this.resolution, this.resolution);
+		context.restore();
+		this.textures[channel].needsUpdate = true;
+		this.endStroke();
+	}
+
+	public exportPNG(channel: GrassMaskChannel): Promise<Blob> {
+		return new Promise((resolve, reject) => {
+			this.canvases[channel].toBlob((blob) => {
+				if (blob) resolve(blob);
+				else reject(new Error(`Could not encode the ${channel} mask`));
+			}, "image/png");
+		});
+	}
+
+	/** Any image size works; it is stretched over the mask. Undoable. */
+	public async importPNG(channel: GrassMaskChannel, file: Blob) {
+		const bitmap = await createImageBitmap(file);
+		this.beginStroke(channel);
+		const context = this.contexts[channel];
+		context.save();
+		context.globalCompositeOperation = "copy";
+		context.drawImage(bitmap, 0, 0, this.resolution, this.resolution);
+		context.restore();
+		bitmap.close();
+		this.textures[channel].needsUpdate = true;
+		this.endStroke();
+	}
+
+	/** Soil under painted tint shifts halfway toward it, so paths read on the ground too. */
+	public applyToTerrain(material: THREE.Material) {
+		material.onBeforeCompile = (shader) => {
+			shader.uniforms.uTintMask = { value: this.textures.tint };
+			shader.uniforms.uMaskSize = { value: this.worldSize };
+			shader.vertexShader = shader.vertexShader
+				.replace(
+					"#include <common>",
+					"#include <common>\nvarying vec3 vMaskWorldPosition;"
+				)
+				.replace(
+					"#include <worldpos_vertex>",
+					"#include <worldpos_vertex>\nvMaskWorldPosition = (modelMatrix * vec4(transformed, 1.0)).xyz;"
+				);
+			shader.fragmentShader = shader.fragmentShader
+				.replace(
+					"#include <common>",
+					"#include <common>\nuniform sampler2D uTintMask;\nuniform float uMaskSize;\nvarying vec3 vMaskWorldPosition;"
+				)
+				.replace(
+					"#include <color_fragment>",
+					`#include <color_fragment>
+					vec4 soilTint = texture2D(uTintMask, vMaskWorldPosition.xz / uMaskSize + 0.5);
+					diffuseColor.rgb = mix(diffuseColor.rgb, soilTint.rgb, soilTint.a * 0.5);`
+				);
+		};
+		material.needsUpdate = true;
+	}
+
+	public dispose() {
+		for (const channel of GRASS_MASK_CHANNELS) {
+			this.textures[channel].dispose();
+		}
+		this.placedDensity.dispose();
+	}
+
+	private worldToCanvas(x: number, z: number) {
+		return new THREE.Vector2(
+			(x / this.worldSize + 0.5) * this.resolution,
+			(z / this.worldSize + 0.5) * this.resolution
+		);
+	}
+
+	private dab(
+		channel: GrassMaskChannel,
+		x: number,
+		y: number,
+		radius: number,
+		brush: GrassBrush
+	) {
+		const context = this.contexts[channel];
+		// Density/height paint toward white (add) or black (erase); tint paints colour or removes it.
+		const color =
+			channel === "tint" ? brush.color : brush.mode === "add" ? "#ffffff" : "#000000";
+		const target = new THREE.Color(color);
+		const rgb = `${Math.round(target.r * 255)}, ${Math.round(target.g * 255)}, ${Math.round(target.b * 255)}`;
+		// Low per-dab alpha: dabs overlap heavily along a stroke.
+		const alpha = brush.strength * 0.35;
+
+		const gradient = context.createRadialGradient(x, y, 0, x, y, radius);
+		gradient.addColorStop(0, `rgba(${rgb}, ${alpha})`);
+		gradient.addColorStop(1, `rgba(${rgb}, 0)`);
+
+		context.save();
+		context.globalCompositeOperation =
+			channel === "tint" && brush.mode === "erase" ? "destination-out" : "source-over";
+		context.fillStyle = gradient;
+		context.beginPath();
+		context.arc(x, y, radius, 0, Math.PI * 2);
+		context.fill();
+		context.restore();
+	}
+
+	private pushSnapshot(stack: MaskSnapshot[], channel: GrassMaskChannel) {
+		stack.push({
+			channel,
+			image: this.contexts[channel].getImageData(0, 0, this.resolution, this.resolution),
+		});
+		if (stack.length > HISTORY_LIMIT) {
+			stack.shift();
+		}
+	}
+
+	private restore(from: MaskSnapshot[], to: MaskSnapshot[]) {
+		const snapshot = from.pop();
+		if (!snapshot) return;
+
+		this.endStroke();
+		this.pushSnapshot(to, snapshot.channel);
+		this.contexts[snapshot.channel].putImageData(snapshot.image, 0, 0);
+		this.textures[snapshot.channel].needsUpdate = true;
+		if (snapshot.channel === "density") {
+			this.onDensityChange?.();
+		}
+	}
+}
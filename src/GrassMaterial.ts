@@ -1,5 +1,8 @@
 import { GUI } from "dat.gui";
 import * as THREE from "three";
+import { GrassMasks } from "./GrassMasks";
+import { GrassTrail } from "./GrassTrail";
+import { WIND_FIELD_GLSL, WindField } from "./WindField";
 
 interface GrassUniformsInterface {
 	uTime?: { value: number };
@@ -8,6 +11,13 @@ interface GrassUniformsInterface {
 	uGrassLightIntensity?: { value: number };
 	uNoiseScale?: { value: number };
 	uPlayerPosition?: { value: THREE.Vector3 };
+	uPlayerRadius?: { value: number };
+	uTrailFlatten?: { value: number };
+	uWindAmp?: { value: number };
+	uWindFreq?: { value: number };
+	uSpeed?: { value: number };
+	uNoiseFactor?: { value: number };
+	uNoiseSpeed?: { value: number };
 	baseColor?: { value: THREE.Color };
 	tipColor1?: { value: THREE.Color };
 	tipColor2?: { value: THREE.Color };
@@ -32,6 +42,22 @@ export class GrassMaterial {
 		uGrassLightIntensity: { value: 1 },
 		uNoiseScale: { value: 1.5 },
 		uPlayerPosition: { value: new THREE.Vector3() },
+		uPlayerRadius: { value: 1.2 },
+		// Eases to 1 while something stands in the grass, back to 0 when it leaves
+		uPlayerStrength: { value: 0 },
+		uTrailFlatten: { value: 0.8 },
+		uTrailTexture: { value: null },
+		uTrailSize: { value: 0 },
+		uDensityMask: { value: null },
+		uPlacedDensityMask: { value: null },
+		uHeightMask: { value: null },
+		uTintMask: { value: null },
+		uMaskSize: { value: 0 },
+		uWindAmp: { value: 0.1 },
+		uWindFreq: { value: 50 },
+		uSpeed: { value: 1.0 },
+		uNoiseFactor: { value: 5.5 },
+		uNoiseSpeed: { value: 0.001 },
 		baseColor: { value: new THREE.Color(this.grassColorProps.baseColor) },
 		tipColor1: { value: new THREE.Color(this.grassColorProps.tipColor1) },
 		tipColor2: { value: new THREE.Color(this.grassColorProps.tipColor2) },
@@ -44,6 +70,17 @@ export class GrassMaterial {
 		uOrbIntensity2: { value: 0.0 },
 	};
 
+	/** Direction, strength and gust uniforms are shared with this field, not copied. */
+	readonly windField: WindField;
+	/** Remembers recent trampling around `uPlayerPosition`. */
+	readonly trail = new GrassTrail();
+	/** Painted density / height / tint, see `GrassPainter`. */
+	readonly masks = new GrassMasks();
+
+	private hasPlayer = false;
+	private lastTrailPosition = new THREE.Vector3();
+	private hasTrailPosition = false;
+
 	private mergeUniforms(newUniforms?: GrassUniformsInterface) {
 		if (!newUniforms) return;
 		for (const [key, value] of Object.entries(newUniforms)) {
@@ -52,7 +89,16 @@ export class GrassMaterial {
 			}
 		}
 	}
-	constructor(grassProps?: GrassUniformsInterface) {
+	constructor(grassProps?: GrassUniformsInterface, windField = new WindField()) {
+		this.windField = windField;
+		Object.assign(this.uniforms, windField.uniforms);
+		this.uniforms.uTrailTexture.value = this.trail.texture;
+		this.uniforms.uTrailSize.value = this.trail.worldSize;
+		this.uniforms.uDensityMask.value = this.masks.textures.density;
+		this.uniforms.uPlacedDensityMask.value = this.masks.placedDensity;
+		this.uniforms.uHeightMask.value = this.masks.textures.height;
+		this.uniforms.uTintMask.value = this.masks.textures.tint;
+		this.uniforms.uMaskSize.value = this.masks.worldSize;
 		this.mergeUniforms(grassProps);
 		this.material = new THREE.MeshLambertMaterial({
 			side: THREE.DoubleSide,
@@ -74,7 +120,34 @@ export class GrassMaterial {
 	}
 
 	update(delta: number) {
+		const deltaSeconds = Math.max(delta - this.uniforms.uTime.value, 0);
 		this.uniforms.uTime.value = delta;
+
+		const targetStrength = this.hasPlayer ? 1 : 0;
+		this.uniforms.uPlayerStrength.value +=
+			(targetStrength - this.uniforms.uPlayerStrength.value) * (1 - Math.exp(-deltaSeconds * 8));
+
+		if (this.hasPlayer) {
+			const position = this.uniforms.uPlayerPosition.value as THREE.Vector3;
+			if (this.hasTrailPosition) {
+				this.trail.stampSegment(this.lastTrailPosition, position, this.uniforms.uPlayerRadius.value);
+			} else {
+				this.trail.stamp(position.x, position.z, this.uniforms.uPlayerRadius.value);
+			}
+			this.lastTrailPosition.copy(position);
+			this.hasTrailPosition = true;
+		}
+		this.trail.update(deltaSeconds);
+	}
+
+	/** World-space point pressing into the grass (cursor hit, avatar feet), or `null` to let it recover. */
+	setPlayerPosition(position: THREE.Vector3 | null) {
+		this.hasPlayer = position !== null;
+		if (position) {
+			this.uniforms.uPlayerPosition.value.copy(position);
+		} else {
+			this.hasTrailPosition = false;
+		}
 	}
 
 	private setupGrassMaterial(material: THREE.Material) {
@@ -89,6 +162,27 @@ export class GrassMaterial {
 				uShadowDarkness: this.uniforms.uShadowDarkness,
 				uGrassLightIntensity: this.uniforms.uGrassLightIntensity,
 				uNoiseScale: this.uniforms.uNoiseScale,
+				uWindAmp: this.uniforms.uWindAmp,
+				uWindFreq: this.uniforms.uWindFreq,
+				uSpeed: this.uniforms.uSpeed,
+				uNoiseFactor: this.uniforms.uNoiseFactor,
+				uNoiseSpeed: this.uniforms.uNoiseSpeed,
+				uWindDirection: this.uniforms.uWindDirection,
+				uWindStrength: this.uniforms.uWindStrength,
+				uGustStrength: this.uniforms.uGustStrength,
+				uGustWavelength: this.uniforms.uGustWavelength,
+				uGustSpeed: this.uniforms.uGustSpeed,
+				uPlayerPosition: this.uniforms.uPlayerPosition,
+				uPlayerRadius: this.uniforms.uPlayerRadius,
+				uPlayerStrength: this.uniforms.uPlayerStrength,
+				uTrailFlatten: this.uniforms.uTrailFlatten,
+				uTrailTexture: this.uniforms.uTrailTexture,
+				uTrailSize: this.uniforms.uTrailSize,
+				uDensityMask: this.uniforms.uDensityMask,
+				uPlacedDensityMask: this.uniforms.uPlacedDensityMask,
+				uHeightMask: this.uniforms.uHeightMask,
+				uTintMask: this.uniforms.uTintMask,
+				uMaskSize: this.uniforms.uMaskSize,
 				uNoiseTexture: this.uniforms.noiseTexture,
 				uGrassAlphaTexture: this.uniforms.grassAlphaTexture,
 				fogColor2: this.uniforms.fogColor2,
@@ -109,7 +203,23 @@ export class GrassMaterial {
       uniform sampler2D uNoiseTexture;
       uniform float uNoiseScale;
       uniform float uTime;
-      
+      uniform float uWindAmp;
+      uniform float uWindFreq;
+      uniform float uSpeed;
+      uniform float uNoiseFactor;
+      uniform float uNoiseSpeed;
+      uniform vec3 uPlayerPosition;
+      uniform float uPlayerRadius;
+      uniform float uPlayerStrength;
+      uniform float uTrailFlatten;
+      uniform sampler2D uTrailTexture;
+      uniform float uTrailSize;
+      uniform sampler2D uDensityMask;
+      uniform sampler2D uPlacedDensityMask;
+      uniform sampler2D uHeightMask;
+      uniform sampler2D uTintMask;
+      uniform float uMaskSize;
+      ${WIND_FIELD_GLSL}
       varying vec3 vColor;
       varying vec2 vGlobalUV;
       varying vec2 vUv;
@@ -117,6 +227,7 @@ export class GrassMaterial {
       varying vec3 vViewPosition;
       varying vec2 vWindColor;
       varying vec3 vWorldPosition;
+      varying vec4 vMaskTint;
       void main() {
         #include <color_vertex>
         
@@ -134,13 +245,6 @@ export class GrassMaterial {
         // SHADOW
 
         // wind effect
-        vec2 uWindDirection = vec2(1.0,1.0);
-        float uWindAmp = 0.1;
-        float uWindFreq = 50.;
-        float uSpeed = 1.0;
-        float uNoiseFactor = 5.50;
-        float uNoiseSpeed = 0.001;
-
         vec2 windDirection = normalize(uWindDirection); // Normalize the wind direction
         vec4 modelPosition = modelMatrix * instanceMatrix * vec4(position, 1.0);
 
@@ -149,16 +253,41 @@ export class GrassMaterial {
 
         vec4 noise = texture2D(uNoiseTexture,vGlobalUV+uTime*uNoiseSpeed);
 
-        float sinWave = sin(uWindFreq*dot(windDirection, vGlobalUV) + noise.g*uNoiseFactor + uTime * uSpeed) * uWindAmp * (1.-uv.y);
+        // gust fronts from the wind field boost the sway and lean blades downwind as they pass
+        float gust = windGust(modelPosition.xz, uTime);
+        float windAmp = uWindAmp * uWindStrength;
+        float sinWave = sin(uWindFreq*dot(windDirection, vGlobalUV) + noise.g*uNoiseFactor + uTime * uSpeed) * windAmp * (1. + uGustStrength * gust) * (1.-uv.y);
+        float lean = windAmp * uGustStrength * gust * (1.-uv.y);
 
-        float xDisp = sinWave;
-        float zDisp = sinWave;
+        // sqrt(2) keeps the old (1,1) displacement magnitude now that the direction is normalized
+        vec2 windDisp = windDirection * (sinWave + lean) * 1.41421356;
+        float xDisp = windDisp.x;
+        float zDisp = windDisp.y;
         modelPosition.x += xDisp;
         modelPosition.z += zDisp;
 
         // use perlinNoise to vary the terrainHeight of the grass
         modelPosition.y += exp(texture2D(uNoiseTexture,vGlobalUV * uNoiseScale).r) * 0.5 * (1.-uv.y);
 
+        // player interaction: blades part away from the player and stay flattened along the trail
+        vec3 bladeBase = (modelMatrix * instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+        vec2 awayFromPlayer = bladeBase.xz - uPlayerPosition.xz;
+        float push = uPlayerStrength * (1. - smoothstep(0., uPlayerRadius, length(awayFromPlayer)));
+        float trampled = texture2D(uTrailTexture, bladeBase.xz / uTrailSize + 0.5).r * uTrailFlatten;
+        float flatten = max(push, trampled);
+        modelPosition.xz += normalize(awayFromPlayer + vec2(1e-4)) * push * uPlayerRadius * 0.6 * (1.-uv.y);
+        modelPosition.y = mix(modelPosition.y, bladeBase.y + (modelPosition.y - bladeBase.y) * 0.25, flatten);
+
+        // painted masks: height scales the blade; placement already thinned by the density it was given,
+        // so density only culls a stable random subset where the mask has dropped since then
+        vec2 maskUV = bladeBase.xz / uMaskSize + 0.5;
+        modelPosition.y = bladeBase.y + (modelPosition.y - bladeBase.y) * texture2D(uHeightMask, maskUV).r * 2.;
+        float bladeRandom = fract(sin(dot(bladeBase.xz, vec2(12.9898, 78.233))) * 43758.5453);
+        if (bladeRandom * texture2D(uPlacedDensityMask, maskUV).r > texture2D(uDensityMask, maskUV).r) {
+          modelPosition.xyz = bladeBase;
+        }
+        vMaskTint = texture2D(uTintMask, maskUV);
+
         vec4 viewPosition = viewMatrix * modelPosition;
         vec4 projectedPosition = projectionMatrix * viewPosition;
         gl_Position = projectedPosition;
@@ -211,12 +340,14 @@ export class GrassMaterial {
       varying vec3 vViewPosition;
       varying vec2 vWindColor;
       varying vec3 vWorldPosition;
+      varying vec4 vMaskTint;
       
       void main() {
         vec4 grassAlpha = texture2D(uGrassAlphaTexture,vUv);
 
         vec4 grassVariation = texture2D(uNoiseTexture, vGlobalUV * uNoiseScale);
         vec3 tipColor = mix(uTipColor1,uTipColor2,grassVariation.r);
+        tipColor = mix(tipColor, vMaskTint.rgb, vMaskTint.a);
         
         vec4 diffuseColor = vec4( mix(uBaseColor,tipColor,vUv.y), step(0.1,grassAlpha.r) );
         vec3 grassFinalColor = diffuseColor.rgb * uGrassLightIntensity;
@@ -346,6 +477,18 @@ export class GrassMaterial {
 		folder.add(this.uniforms.uEnableShadows, "value").name("Enable Shadows");
 
 		folder.open();
+
+		const windFolder = gui.addFolder("Grass Wind");
+		windFolder.add(this.uniforms.uWindAmp, "value", 0, 0.5, 0.001).name("Amplitude");
+		windFolder.add(this.uniforms.uWindFreq, "value", 0, 200, 0.5).name("Frequency");
+		windFolder.add(this.uniforms.uSpeed, "value", 0, 5, 0.01).name("Speed");
+		windFolder.add(this.uniforms.uNoiseFactor, "value", 0, 20, 0.05).name("Noise Factor");
+		windFolder.add(this.uniforms.uNoiseSpeed, "value", 0, 0.02, 0.0001).name("Noise Speed");
+
+		const interactionFolder = gui.addFolder("Grass Interaction");
+		interactionFolder.add(this.uniforms.uPlayerRadius, "value", 0.2, 5, 0.05).name("Radius");
+		interactionFolder.add(this.uniforms.uTrailFlatten, "value", 0, 1, 0.01).name("Trail Flatten");
+		interactionFolder.add(this.trail, "recoverySeconds", 0.2, 10, 0.1).name("Recovery (s)");
 	}
 }
 
@@ -0,0 +1,225 @@
+import * as THREE from "three";
+import * as dat from "dat.gui";
+import {
+	GRASS_MASK_CHANNELS,
+	GrassBrush,
+	GrassBrushMode,
+	GrassMaskChannel,
+	GrassMasks,
+} from "./GrassMasks";
+
+const BRUSH_MODES: GrassBrushMode[] = ["add", "erase"];
+
+/**
+ * Paint mode for `GrassMasks`: drag on the island to paint the selected mask under a brush ring.
+ * Ctrl/Cmd+Z undoes a stroke, Ctrl/Cmd+Shift+Z redoes. Masks round-trip as PNGs from the GUI.
+ */
+export class GrassPainter {
+	private readonly masks: GrassMasks;
+	private readonly camera: THREE.Camera;
+	private readonly canvas: HTMLCanvasElement;
+	private readonly raycaster = new THREE.Raycaster();
+	private readonly pointer = new THREE.Vector2();
+	private readonly brushRing: THREE.Mesh;
+	private terrain: THREE.Mesh | null = null;
+	private painting = false;
+	/** Set when a stroke ends so the click that follows doesn't also open an orb. */
+	private swallowNextClick = false;
+	private controls = {
+		enabled: false,
+		channel: "density" as GrassMaskChannel,
+		mode: "erase" as GrassBrushMode,
+		radius: 2,
+		strength: 0.6,
+		color: "#b59a68",
+		undo: () => this.masks.undo(),
+		redo: () => this.masks.redo(),
+		clear: () => this.masks.clear(this.controls.channel),
+		exportPNG: () => void this.exportPNG(),
+		importPNG: () => this.pickPNG(),
+	};
+	private guiControllers: dat.GUIController[] = [];
+
+	constructor(masks: GrassMasks, camera: THREE.Camera, canvas: HTMLCanvasElement, scene: THREE.Scene) {
+		this.masks = masks;
+		this.camera = camera;
+		this.canvas = canvas;
+
+		this.brushRing = new THREE.Mesh(
+			new THREE.RingGeometry(0.92, 1, 48).rotateX(-Math.PI / 2),
+			new THREE.MeshBasicMaterial({
+				color: 0xffffff,
+				transparent: true,
+				opacity: 0.7,
+				depthTest: false,
+				fog: false,
+			})
+		);
+		this.brushRing.renderOrder = 10;
+		this.brushRing.visible = false;
+		scene.add(this.brushRing);
+
+		this.setupEventListeners();
+	}
+
+	public setTerrain(terrain: THREE.Mesh) {
+		this.terrain = terrain;
+	}
+
+	public isEnabled() {
+		return this.controls.enabled;
+	}
+
+	public setEnabled(enabled: boolean) {
+		this.controls.enabled = enabled;
+		if (!enabled) {
+			this.finishStroke();
+			this.brushRing.visible = false;
+		}
+		this.refreshGUI();
+	}
+
+	public setupGUI(gui: dat.GUI) {
+		const folder = gui.addFolder("Paint Grass");
+		this.guiControllers.push(
+			folder
+				.add(this.controls, "enabled")
+				.name("Paint Mode")
+				.onChange((value: boolean) => this.setEnabled(value)),
+			folder.add(this.controls, "channel", GRASS_MASK_CHANNELS).name("Mask"),
+			folder.add(this.controls, "mode", BRUSH_MODES).name("Brush"),
+			folder.add(this.controls, "radius", 0.2, 10, 0.1).name("Radius"),
+			folder.add(this.controls, "strength", 0.05, 1, 0.01).name("Strength"),
+			folder.addColor(this.controls, "color").name("Tint Color"),
+			folder.add(this.controls, "undo").name("Undo"),
+			folder.add(this.controls, "redo").name("Redo"),
+			folder.add(this.controls, "clear").name("Clear Mask"),
+			folder.add(this.controls, "exportPNG").name("Export PNG"),
+			folder.add(this.controls, "importPNG").name("Import PNG")
+		);
+	}
+
+	private get brush(): GrassBrush {
+		return {
+			radius: this.controls.radius,
+			strength: this.controls.strength,
+			mode: this.controls.mode,
+			color: this.controls.color,
+		};
+	}
+
+	private setupEventListeners() {
+		this.canvas.addEventListener("pointerdown", (event) => {
+			if (!this.controls.enabled || event.button !== 0) return;
+			const hit = this.raycastTerrain(event);
+			if (!hit) return;
+
+			this.canvas.setPointerCapture(event.pointerId);
+			this.masks.beginStroke(this.controls.channel);
+			this.masks.paint(hit.x, hit.z, this.brush);
+			this.painting = true;
+		});
+
+		this.canvas.addEventListener("pointermove", (event) => {
+			if (!this.controls.enabled) return;
+			const hit = this.raycastTerrain(event);
+			this.brushRing.visible = hit !== null;
+			if (!hit) return;
+
+			this.brushRing.position.copy(hit);
+			this.brushRing.position.y += 0.05;
+			this.brushRing.scale.setScalar(this.controls.radius);
+			if (this.painting) {
+				this.masks.paint(hit.x, hit.z, this.brush);
+			}
+		});
+
+		const endStroke = () => {
+			if (!this.painting) return;
+			this.finishStroke();
+			this.swallowNextClick = true;
+		};
+		this.canvas.addEventListener("pointerup", endStroke);
+		this.canvas.addEventListener("pointercancel", endStroke);
+		this.canvas.addEventListener("pointerleave", () => {
+			this.brushRing.visible = false;
+		});
+
+		this.canvas.addEventListener(
+			"click",
+			(event) => {
+				if (!this.swallowNextClick) return;
+				this.swallowNextClick = false;
+				event.stopImmediatePropagation();
+			},
+			true
+		);
+
+		window.addEventListener("keydown", (event) => {
+			if (!this.controls.enabled || event.key.toLowerCase() !== "z") return;
+			if (!(event.metaKey || event.ctrlKey)) return;
+			const target = event.target as HTMLElement | null;
+			if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+			event.preventDefault();
+			if (event.shiftKey) {
+				this.masks.redo();
+			} else {
+				this.masks.undo();
+			}
+		});
+	}
+
+	private finishStroke() {
+		this.painting = false;
+		this.masks.endStroke();
+	}
+
+	private raycastTerrain(event: PointerEvent): THREE.Vector3 | null {
+		if (!this.terrain) return null;
+		const rect = this.canvas.getBoundingClientRect();
+		this.pointer.set(
+			((event.clientX - rect.left) / rect.width) * 2 - 1,
+			-((event.clientY - rect.top) / rect.height) * 2 + 1
+		);
+		this.raycaster.setFromCamera(this.pointer, this.camera);
+		const hit = this.raycaster.intersectObject(this.terrain, false)[0];
+		return hit ? hit.point : null;
+	}
+
+	private async exportPNG() {
+		const channel = this.controls.channel;
+		try {
+			const blob = await this.masks.exportPNG(channel);
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = `grass-${channel}-mask.png`;
+			link.click();
+			URL.revokeObjectURL(url);
+		} catch (error) {
+			console.error("[paint] PNG export failed", error);
+		}
+	}
+
+	private pickPNG() {
+		const channel = this.controls.channel;
+		const input = document.createElement("input");
+		input.type = "file";
+		input.accept = "image/png";
+		input.addEventListener("change", () => {
+			const file = input.files?.[0];
+			if (!file) return;
+			this.masks.importPNG(channel, file).catch((error) => {
+				console.error(`[paint] Could not load ${file.name} as the ${channel} mask`, error);
+			});
+		});
+		input.click();
+	}
+
+	private refreshGUI() {
+		for (const controller of this.guiControllers) {
+			controller.updateDisplay();
+		}
+	}
+}
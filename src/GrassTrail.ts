@@ -0,0 +1,103 @@
+import * as THREE from "three";
+
+/**
+ * Top-down trample map over a square centred on the world origin. Stamps fade out over
+ * `recoverySeconds`, which is what lets flattened grass spring back.
+ */
+export class GrassTrail {
+	readonly texture: THREE.DataTexture;
+	readonly worldSize: number;
+	recoverySeconds = 2.5;
+
+	private readonly resolution: number;
+	private readonly values: Float32Array;
+	private readonly data: Uint8Array;
+	private hasTrail = false;
+
+	constructor(resolution = 128, worldSize = 80) {
+		this.resolution = resolution;
+		this.worldSize = worldSize;
+		this.values = new Float32Array(resolution * resolution);
+		const data = new Uint8Array(resolution * resolution);
+		this.data = data;
+		this.texture = new THREE.DataTexture(
+			data,
+			resolution,
+			resolution,
+			THREE.RedFormat,
+			THREE.UnsignedByteType
+		);
+		this.texture.magFilter = THREE.LinearFilter;
+		this.texture.minFilter = THREE.LinearFilter;
+		this.texture.unpackAlignment = 1;
+		this.texture.needsUpdate = true;
+	}
+
+	/** Soft disc at a world position; overlapping stamps keep the stronger value. */
+	stamp(x: number, z: number, radius: number, strength = 1) {
+		const texelsPerUnit = this.resolution / this.worldSize;
+		const centerX = (x / this.worldSize + 0.5) * this.resolution;
+		const centerY = (z / this.worldSize + 0.5) * this.resolution;
+		const radiusTexels = Math.max(radius * texelsPerUnit, 1);
+
+		const minX = Math.max(Math.floor(centerX - radiusTexels), 0);
+		const maxX = Math.min(Math.ceil(centerX + radiusTexels), this.resolution - 1);
+		const minY = Math.max(Math.floor(centerY - radiusTexels), 0);
+		const maxY = Math.min(Math.ceil(centerY + radiusTexels), this.resolution - 1);
+
+		for (let y = minY; y <= maxY; y++) {
+			for (let x = minX; x <= maxX; x++) {
+				const distance = Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY) / radiusTexels;
+				if (distance >= 1) continue;
+
+				const falloff = 1 - distance * distance;
+				const index = y * this.resolution + x;
+				this.values[index] = Math.max(this.values[index], falloff * strength);
+				this.hasTrail = true;
+			}
+		}
+	}
+
+	/** Stamps every half radius between two points so fast pointer moves leave a continuous trail. */
+	stampSegment(from: THREE.Vector3, to: THREE.Vector3, radius: number, strength = 1) {
+		const steps = Math.max(Math.ceil(from.distanceTo(to) / (radius * 0.5)), 1);
+		for (let i = 1; i <= steps; i++) {
+			const t = i / steps;
+			this.stamp(
+				THREE.MathUtils.lerp(from.x, to.x, t),
+				THREE.MathUtils.lerp(from.z, to.z, t),
+				radius,
+				strength
+			);
+		}
+	}
+
+	update(deltaSeconds: number) {
+		if (!this.hasTrail) {
+			return;
+		}
+
+		const decay = Math.exp(-deltaSeconds / this.recoverySeconds);
+		let remaining = false;
+		for (let i = 0; i < this.values.length; i++) {
+			const value = this.values[i] * decay;
+			this.values[i] = value < 1 / 255 ? 0 : value;
+			this.data[i] = Math.round(this.values[i] * 255);
+			if (this.values[i] > 0) remaining = true;
+		}
+
+		this.hasTrail = remaining;
+		this.texture.needsUpdate = true;
+	}
+
+	clear() {
+		this.values.fill(0);
+		this.data.fill(0);
+		this.hasTrail = false;
+		this.texture.needsUpdate = true;
+	}
+
+	dispose() {
+		this.texture.dispose();
+	}
+}
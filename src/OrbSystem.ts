@@ -1,11 +1,23 @@
 import * as THREE from "three";
-import { inspirationLinks, LinkData } from "./links";
-import {
-    allInspirationUrlsClickedThisSession,
-    clearOrbClickedSession,
-    isOrbUrlClickedThisSession,
-    recordOrbUrlClickedThisSession,
-} from "./orbSessionClicks";
+import { getInspirationLinks } from "./linkCatalog";
+import { LinkData } from "./links";
+import { createRotationStrategy, LinkSelectionStrategy, RandomSource } from "./linkSelection";
+import { recordOrbUrlClickedThisSession } from "./orbSessionClicks";
+import { hasVisited, recordVisit } from "./visitHistory";
+import { WindField } from "./WindField";
+
+const ORB_COLOR = 0xf5f5f0; // Off-white
+const SEEN_ORB_COLOR = 0xc8d2e6; // Cooler and dimmer: opened on an earlier visit (visit history on)
+
+/** The orb under the pointer, projected for DOM overlays. */
+export interface OrbHover {
+    linkData: LinkData;
+    /** Client pixels of the orb's center. */
+    x: number;
+    y: number;
+    /** Approximate on-screen radius in pixels, so overlays can sit beside the orb rather than on it. */
+    radius: number;
+}
 
 interface OrbData {
     mesh: THREE.Mesh;
@@ -27,6 +39,8 @@ interface OrbData {
     baseLightIntensity: number;
     linkData: LinkData;
     isClicked: boolean;
+    /** Opened on an earlier visit; tints the orb. */
+    isSeen: boolean;
 }
 
 export class OrbSystem {
@@ -40,9 +54,18 @@ export class OrbSystem {
     private orbMaterial: THREE.MeshBasicMaterial;
     private raycaster = new THREE.Raycaster();
     private mouse = new THREE.Vector2();
+    private hoverProjection = new THREE.Vector3();
+    private hoverEdge = new THREE.Vector3();
     private canvas: HTMLCanvasElement;
     private usedLinks: Set<number> = new Set(); // Track used link indices
+    private linkPool: LinkData[] = getInspirationLinks(); // Pool `usedLinks` indexes into
+    private linkSelection: LinkSelectionStrategy = createRotationStrategy();
+    private linkRandom: RandomSource = Math.random;
     private readonly onBeforeOrbOpensExternalLink?: () => void;
+    private windField?: WindField;
+    private windSample = new THREE.Vector2();
+    private windSwayAmount: number = 0.08; // World units of drift per unit of wind strength
+    private pointLightsEnabled: boolean = true;
 
     // Handpicked spawn locations
     private spawnPoints: THREE.Vector3[] = [
@@ -131,7 +154,7 @@ export class OrbSystem {
             
             // Make sure orb is visible once it starts
             orb.mesh.visible = true;
-            orb.light.visible = true;
+            orb.light.visible = this.pointLightsEnabled;
             
             if (orbAge >= orb.duration) {
                 // Remove expired orb
@@ -140,11 +163,21 @@ export class OrbSystem {
             }
 
             this.updateOrbAnimation(orb, currentTime);
+            this.applyWindSway(orb);
             this.updateOrbSize(orb);
             this.updateOrbVisualEffects(orb);
         }
     }
 
+    public setWindField(windField: WindField): void {
+        this.windField = windField;
+    }
+
+    // Grass glow comes from getSimpleOrbData uniforms, so orbs still light the grass without point lights
+    public setPointLightsEnabled(enabled: boolean): void {
+        this.pointLightsEnabled = enabled;
+    }
+
     private spawnOrbs(currentTime: number): void {
         if (this.isMobileScreen()) {
             // Mobile: only spawn one orb (#4) at center position
@@ -232,7 +265,8 @@ export class OrbSystem {
             currentLuminosity: 1.0,
             baseLightIntensity: 50, // Store the base light intensity
             linkData: linkData,
-            isClicked: false
+            isClicked: false,
+            isSeen: hasVisited(linkData.url)
         };
 
         this.orbs.push(orbData);
@@ -317,6 +351,19 @@ export class OrbSystem {
         return isOrb2 || isOrb7;
     }
 
+    private applyWindSway(orb: OrbData): void {
+        if (!this.windField) return;
+
+        // Drift downwind from the spawn point; gust fronts passing over the orb push it further
+        const wind = this.windField.sample(orb.basePosition.x, orb.basePosition.z, this.windSample);
+        const x = orb.basePosition.x + wind.x * this.windSwayAmount;
+        const z = orb.basePosition.z + wind.y * this.windSwayAmount;
+        orb.mesh.position.x = x;
+        orb.mesh.position.z = z;
+        orb.light.position.x = x;
+        orb.light.position.z = z;
+    }
+
     private updateOrbSize(orb: OrbData): void {
         // Calculate distance from camera
         const distance = orb.mesh.position.distanceTo(this.camera.position);
@@ -412,7 +459,7 @@ export class OrbSystem {
         orb.currentLuminosity += luminosityDiff * luminosityEaseSpeed;
         
         // Apply luminosity to material color (brighten the base color)
-        const baseColor = 0xf5f5f0; // Original off-white color
+        const baseColor = orb.isSeen ? SEEN_ORB_COLOR : ORB_COLOR;
         const brightenedColor = new THREE.Color(baseColor).multiplyScalar(orb.currentLuminosity);
         orb.material.color.copy(brightenedColor);
         
@@ -442,6 +489,7 @@ export class OrbSystem {
                 clickedOrb.isClicked = true;
 
                 recordOrbUrlClickedThisSession(clickedOrb.linkData.url);
+                recordVisit(clickedOrb.linkData);
 
                 this.onBeforeOrbOpensExternalLink?.();
 
@@ -459,51 +507,26 @@ export class OrbSystem {
     }
 
     private getRandomLink(): LinkData {
-        const poolUrls = inspirationLinks.map((l) => l.url);
-
-        const buildAvailable = (): number[] => {
-            const out: number[] = [];
-            for (let i = 0; i < inspirationLinks.length; i++) {
-                if (
-                    !this.usedLinks.has(i) &&
-                    !isOrbUrlClickedThisSession(inspirationLinks[i].url)
-                ) {
-                    out.push(i);
-                }
-            }
-            return out;
-        };
-
-        let availableIndices = buildAvailable();
-
-        // Full cycle: every inspiration URL was opened this session — allow repeats only after that.
-        if (availableIndices.length === 0 && allInspirationUrlsClickedThisSession(poolUrls)) {
-            clearOrbClickedSession();
-            availableIndices = buildAvailable();
-        }
-
-        // Same as before: no slot left only because both orbs hold links — recycle in-rotation indices.
-        if (availableIndices.length === 0) {
+        // The fetched catalog replaces the bundled one once; indices into the old pool mean nothing.
+        const inspirationLinks = getInspirationLinks();
+        if (inspirationLinks !== this.linkPool) {
+            this.linkPool = inspirationLinks;
             this.usedLinks.clear();
-            availableIndices = buildAvailable();
         }
 
-        if (availableIndices.length === 0) {
-            clearOrbClickedSession();
-            this.usedLinks.clear();
-            availableIndices = buildAvailable();
-        }
-        if (availableIndices.length === 0) {
-            for (let i = 0; i < inspirationLinks.length; i++) {
-                availableIndices.push(i);
-            }
-        }
+        const index = this.linkSelection.pick(
+            { pool: inspirationLinks, inUse: this.usedLinks },
+            this.linkRandom
+        );
+        this.usedLinks.add(index);
 
-        const randomIndex =
-            availableIndices[Math.floor(Math.random() * availableIndices.length)];
-        this.usedLinks.add(randomIndex);
+        return inspirationLinks[index];
+    }
 
-        return inspirationLinks[randomIndex];
+    /** Swap how links are picked (see `linkSelection.ts`); pass a seeded `random` for repeatable picks. */
+    public setLinkSelection(strategy: LinkSelectionStrategy, random: RandomSource = Math.random): void {
+        this.linkSelection = strategy;
+        this.linkRandom = random;
     }
 
 
@@ -512,7 +535,7 @@ export class OrbSystem {
         const orb = this.orbs[index];
         
         // Remove the link from used set so it can be used again
-        const linkIndex = inspirationLinks.findIndex(link => link.url === orb.linkData.url);
+        const linkIndex = this.linkPool.findIndex(link => link.url === orb.linkData.url);
         if (linkIndex !== -1) {
             this.usedLinks.delete(linkIndex);
         }
@@ -523,6 +546,28 @@ export class OrbSystem {
         this.orbs.splice(index, 1);
     }
 
+    public getHoveredOrb(): OrbHover | null {
+        const orb = this.orbs.find(orb => orb.isHovered && orb.mesh.visible);
+        if (!orb) {
+            return null;
+        }
+
+        const rect = this.canvas.getBoundingClientRect();
+        const center = this.hoverProjection.copy(orb.mesh.position).project(this.camera);
+        const x = rect.left + (center.x + 1) * 0.5 * rect.width;
+        const y = rect.top + (1 - center.y) * 0.5 * rect.height;
+
+        // Project a point one radius to the camera's right to size the orb in pixels
+        const right = this.hoverEdge
+            .setFromMatrixColumn(this.camera.matrixWorld, 0)
+            .multiplyScalar(orb.mesh.scale.x)
+            .add(orb.mesh.position)
+            .project(this.camera);
+        const radius = Math.abs(right.x - center.x) * 0.5 * rect.width;
+
+        return { linkData: orb.linkData, x, y, radius };
+    }
+
     public getSimpleOrbData(): { positions: THREE.Vector3[], intensities: number[] } {
         const positions: THREE.Vector3[] = [];
         const intensities: number[] = [];
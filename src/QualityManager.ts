@@ -0,0 +1,234 @@
+import * as THREE from "three";
+import * as dat from "dat.gui";
+import { GrassMaterial } from "./GrassMaterial";
+
+export type QualityTierName = "low" | "medium" | "high" | "ultra";
+
+export interface QualityTier {
+	/** Upper bound on the renderer pixel ratio (the device ratio still caps it). */
+	maxPixelRatio: number;
+	shadows: boolean;
+	shadowMapSize: number;
+	shadowMapType: THREE.ShadowMapType;
+	/** Multiplier on the base grass count. */
+	grassDensity: number;
+	orbLights: boolean;
+}
+
+/** Lowest to highest. `high` matches what the scene shipped with before tiers existed. */
+export const QUALITY_TIER_NAMES: QualityTierName[] = ["low", "medium", "high", "ultra"];
+
+export const QUALITY_TIERS: Record<QualityTierName, QualityTier> = {
+	low: {
+		maxPixelRatio: 1,
+		shadows: false,
+		shadowMapSize: 512,
+		shadowMapType: THREE.BasicShadowMap,
+		grassDensity: 0.6,
+		orbLights: false,
+	},
+	medium: {
+		maxPixelRatio: 1.5,
+		shadows: true,
+		shadowMapSize: 1024,
+		shadowMapType: THREE.PCFShadowMap,
+		grassDensity: 1.25,
+		orbLights: true,
+	},
+	high: {
+		maxPixelRatio: 2,
+		shadows: true,
+		shadowMapSize: 2048,
+		shadowMapType: THREE.PCFSoftShadowMap,
+		grassDensity: 2,
+		orbLights: true,
+	},
+	ultra: {
+		maxPixelRatio: 2,
+		shadows: true,
+		shadowMapSize: 4096,
+		shadowMapType: THREE.PCFSoftShadowMap,
+		grassDensity: 3,
+		orbLights: true,
+	},
+};
+
+export interface QualityTargets {
+	renderer: THREE.WebGLRenderer;
+	scene: THREE.Scene;
+	shadowLight: THREE.DirectionalLight;
+	grassMaterial: GrassMaterial;
+	setGrassDensity: (density: number) => void;
+	setOrbLightsEnabled: (enabled: boolean) => void;
+}
+
+/** Frame-time samples averaged per decision (~1.5 s at 60 fps). */
+const SAMPLE_WINDOW = 90;
+/** Average frame time above this steps down a tier (~45 fps). */
+const DOWNGRADE_FRAME_MS = 22;
+/** Average frame time below this steps up a tier; close to a 60 Hz vsync'd frame. */
+const UPGRADE_FRAME_MS = 17.5;
+/** Quiet period after a change before judging again; longer going up to avoid oscillating. */
+const DOWNGRADE_COOLDOWN_MS = 2000;
+const UPGRADE_COOLDOWN_MS = 10000;
+/** Longer gaps are tab switches or breakpoints, not rendering cost. */
+const MAX_SAMPLE_MS = 250;
+
+/**
+ * Samples frame times and steps through `QUALITY_TIERS` while adaptive mode is on.
+ * Picking a tier in the GUI turns adaptive mode off. `antialias` is fixed at context creation,
+ * so it is not part of a tier.
+ */
+export class QualityManager {
+	private readonly targets: QualityTargets;
+	private readonly samples: number[] = [];
+	private tierIndex: number;
+	private adaptive = true;
+	private lastFrameTime?: number;
+	private lastChangeTime = 0;
+	private lastChangeWasDowngrade = false;
+	private controls: { adaptive: boolean; tier: QualityTierName; frameMs: number; fps: number };
+	private guiControllers: dat.GUIController[] = [];
+
+	constructor(targets: QualityTargets, initialTier: QualityTierName = QualityManager.guessInitialTier()) {
+		this.targets = targets;
+		this.tierIndex = QUALITY_TIER_NAMES.indexOf(initialTier);
+		this.controls = { adaptive: true, tier: initialTier, frameMs: 0, fps: 0 };
+		this.applyTier();
+	}
+
+	/** Small screens and low core counts start one tier down rather than stuttering first. */
+	static guessInitialTier(): QualityTierName {
+		const isSmallScreen = window.innerWidth <= 768;
+		const cores = navigator.hardwareConcurrency ?? 8;
+		return isSmallScreen || cores <= 4 ? "medium" : "high";
+	}
+
+	public getTierName(): QualityTierName {
+		return QUALITY_TIER_NAMES[this.tierIndex];
+	}
+
+	public getTier(): QualityTier {
+		return QUALITY_TIERS[this.getTierName()];
+	}
+
+	public setTier(name: QualityTierName) {
+		const index = QUALITY_TIER_NAMES.indexOf(name);
+		if (index === -1 || index === this.tierIndex) return;
+		this.lastChangeWasDowngrade = index < this.tierIndex;
+		this.tierIndex = index;
+		this.applyTier();
+	}
+
+	public setAdaptive(adaptive: boolean) {
+		this.adaptive = adaptive;
+		this.controls.adaptive = adaptive;
+		this.samples.length = 0;
+	}
+
+	/** Call once per rendered frame. */
+	public update(now = performance.now()) {
+		const frameMs = this.lastFrameTime === undefined ? undefined : now - this.lastFrameTime;
+		this.lastFrameTime = now;
+		if (frameMs === undefined || frameMs > MAX_SAMPLE_MS) {
+			return;
+		}
+
+		this.samples.push(frameMs);
+		if (this.samples.length < SAMPLE_WINDOW) {
+			return;
+		}
+
+		const average = this.samples.reduce((sum, sample) => sum + sample, 0) / this.samples.length;
+		this.samples.length = 0;
+		this.controls.frameMs = Math.round(average * 10) / 10;
+		this.controls.fps = Math.round(1000 / average);
+
+		if (!this.adaptive) {
+			return;
+		}
+
+		const sinceChange = now - this.lastChangeTime;
+		if (average > DOWNGRADE_FRAME_MS && this.tierIndex > 0 && sinceChange > DOWNGRADE_COOLDOWN_MS) {
+			this.setTier(QUALITY_TIER_NAMES[this.tierIndex - 1]);
+		} else if (
+			average < UPGRADE_FRAME_MS &&
+			this.tierIndex < QUALITY_TIER_NAMES.length - 1 &&
+			sinceChange > (this.lastChangeWasDowngrade ? UPGRADE_COOLDOWN_MS * 3 : UPGRADE_COOLDOWN_MS)
+		) {
+			this.setTier(QUALITY_TIER_NAMES[this.tierIndex + 1]);
+		}
+	}
+
+	/** Re-applies the pixel ratio cap, e.g. after a move to a monitor with a different DPR. */
+	public refreshPixelRatio() {
+		this.targets.renderer.setPixelRatio(
+			Math.min(window.devicePixelRatio, this.getTier().maxPixelRatio)
+		);
+	}
+
+	public setupGUI(gui: dat.GUI) {
+		const folder = gui.addFolder("Quality");
+		this.guiControllers.push(
+			folder
+				.add(this.controls, "adaptive")
+				.name("Adaptive")
+				.onChange((value: boolean) => this.setAdaptive(value)),
+			folder
+				.add(this.controls, "tier", QUALITY_TIER_NAMES)
+				.name("Tier")
+				.onChange((name: QualityTierName) => {
+					this.setAdaptive(false);
+					this.setTier(name);
+					this.refreshGUI();
+				}),
+			folder.add(this.controls, "frameMs").name("Frame (ms)"),
+			folder.add(this.controls, "fps").name("FPS")
+		);
+		// Readouts follow the sampled values every frame.
+		this.guiControllers[1].listen();
+		this.guiControllers[2].listen();
+		this.guiControllers[3].listen();
+	}
+
+	private applyTier() {
+		const tier = this.getTier();
+		const { renderer, scene, shadowLight, grassMaterial } = this.targets;
+
+		this.controls.tier = this.getTierName();
+		this.lastChangeTime = performance.now();
+		this.samples.length = 0;
+
+		this.refreshPixelRatio();
+
+		if (renderer.shadowMap.enabled !== tier.shadows || renderer.shadowMap.type !== tier.shadowMapType) {
+			renderer.shadowMap.enabled = tier.shadows;
+			renderer.shadowMap.type = tier.shadowMapType;
+			// Shadow settings are baked into compiled programs.
+			scene.traverse((object) => {
+				const material = (object as THREE.Mesh).material;
+				const materials = Array.isArray(material) ? material : [material];
+				for (const m of materials) {
+					if (m) m.needsUpdate = true;
+				}
+			});
+		}
+		grassMaterial.updateGrassGraphicsChange(tier.shadows);
+		if (shadowLight.shadow.mapSize.x !== tier.shadowMapSize) {
+			shadowLight.shadow.mapSize.set(tier.shadowMapSize, tier.shadowMapSize);
+			// The shadow map render target is sized once; drop it so the next frame recreates it.
+			shadowLight.shadow.map?.dispose();
+			shadowLight.shadow.map = null;
+		}
+		renderer.shadowMap.needsUpdate = true;
+
+		this.targets.setGrassDensity(tier.grassDensity);
+		this.targets.setOrbLightsEnabled(tier.orbLights);
+	}
+
+	private refreshGUI() {
+		for (const controller of this.guiControllers) {
+			controller.updateDisplay();
+		}
+	}
+}
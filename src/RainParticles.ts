@@ -0,0 +1,141 @@
+import * as THREE from "three";
+
+const RAIN_DROP_COUNT = 6000;
+const RAIN_FALL_SPEED = 14;
+const RAIN_STREAK_LENGTH = 0.45;
+
+const RAIN_VERTEX_SHADER = `
+uniform float uTime;
+uniform float uIntensity;
+uniform vec3 uCameraPosition;
+uniform vec3 uBoxSize;
+uniform vec2 uWind;
+uniform vec2 uDrift;
+uniform float uFallSpeed;
+uniform float uStreakLength;
+
+attribute vec3 aOffset;
+attribute float aSeed;
+attribute float aTail;
+
+varying float vAlpha;
+
+void main() {
+	// Each drop falls forever; wrapping into a box around the camera keeps the field dense wherever it looks.
+	// Horizontal drift is integrated on the CPU so gusts don't make the whole field jump.
+	vec3 drift = vec3(uDrift.x, -uFallSpeed * (0.85 + aSeed * 0.3) * uTime, uDrift.y);
+	vec3 local = mod(aOffset + drift - uCameraPosition, uBoxSize) - uBoxSize * 0.5;
+	vec3 world = uCameraPosition + local;
+
+	vec3 velocity = normalize(vec3(uWind.x, -uFallSpeed, uWind.y));
+	world -= velocity * uStreakLength * aTail;
+
+	// Seeds below the intensity are visible, so light rain is a subset of heavy rain.
+	float visible = step(aSeed, uIntensity);
+	float edgeFade = 1.0 - smoothstep(0.35, 0.5, max(abs(local.x) / uBoxSize.x, abs(local.z) / uBoxSize.z));
+	vAlpha = visible * edgeFade * (1.0 - aTail * 0.7);
+
+	gl_Position = projectionMatrix * viewMatrix * vec4(world, 1.0);
+}
+`;
+
+const RAIN_FRAGMENT_SHADER = `
+uniform vec3 uColor;
+uniform float uOpacity;
+
+varying float vAlpha;
+
+void main() {
+	if (vAlpha <= 0.001) {
+		discard;
+	}
+	gl_FragColor = vec4(uColor, vAlpha * uOpacity);
+}
+`;
+
+/** GPU rain: line-segment streaks animated entirely in the vertex shader, no per-frame buffer writes. */
+export class RainParticles {
+	public readonly mesh: THREE.LineSegments;
+	public readonly material: THREE.ShaderMaterial;
+	private readonly geometry: THREE.BufferGeometry;
+	private lastTime?: number;
+
+	constructor(count = RAIN_DROP_COUNT, boxSize = new THREE.Vector3(40, 24, 40)) {
+		const offsets = new Float32Array(count * 2 * 3);
+		const seeds = new Float32Array(count * 2);
+		const tails = new Float32Array(count * 2);
+
+		for (let i = 0; i < count; i++) {
+			const x = Math.random() * boxSize.x;
+			const y = Math.random() * boxSize.y;
+			const z = Math.random() * boxSize.z;
+			const seed = Math.random();
+
+			for (let end = 0; end < 2; end++) {
+				const vertex = i * 2 + end;
+				offsets.set([x, y, z], vertex * 3);
+				seeds[vertex] = seed;
+				tails[vertex] = end;
+			}
+		}
+
+		this.geometry = new THREE.BufferGeometry();
+		this.geometry.setAttribute(
+			"position",
+			new THREE.BufferAttribute(new Float32Array(count * 2 * 3), 3)
+		);
+		this.geometry.setAttribute("aOffset", new THREE.BufferAttribute(offsets, 3));
+		this.geometry.setAttribute("aSeed", new THREE.BufferAttribute(seeds, 1));
+		this.geometry.setAttribute("aTail", new THREE.BufferAttribute(tails, 1));
+
+		this.material = new THREE.ShaderMaterial({
+			vertexShader: RAIN_VERTEX_SHADER,
+			fragmentShader: RAIN_FRAGMENT_SHADER,
+			transparent: true,
+			depthWrite: false,
+			uniforms: {
+				uTime: { value: 0 },
+				uIntensity: { value: 0 },
+				uCameraPosition: { value: new THREE.Vector3() },
+				uBoxSize: { value: boxSize.clone() },
+				uWind: { value: new THREE.Vector2() },
+				uDrift: { value: new THREE.Vector2() },
+				uFallSpeed: { value: RAIN_FALL_SPEED },
+				uStreakLength: { value: RAIN_STREAK_LENGTH },
+				uColor: { value: new THREE.Color("#c9d3dc") },
+				uOpacity: { value: 0.55 },
+			},
+		});
+
+		this.mesh = new THREE.LineSegments(this.geometry, this.material);
+		this.mesh.frustumCulled = false;
+		this.mesh.visible = false;
+	}
+
+	public update(time: number, cameraPosition: THREE.Vector3) {
+		const delta = this.lastTime === undefined ? 0 : time - this.lastTime;
+		this.lastTime = time;
+		if (!this.mesh.visible) {
+			return;
+		}
+		this.material.uniforms.uDrift.value.addScaledVector(this.material.uniforms.uWind.value, delta);
+		this.material.uniforms.uTime.value = time;
+		this.material.uniforms.uCameraPosition.value.copy(cameraPosition);
+	}
+
+	/** 0 hides the pass entirely; 1 shows every drop. */
+	public setIntensity(intensity: number) {
+		this.material.uniforms.uIntensity.value = intensity;
+		this.mesh.visible = intensity > 0.001;
+	}
+
+	/** Horizontal drift in world units per second (x, z). */
+	public setWind(x: number, z: number) {
+		this.material.uniforms.uWind.value.set(x, z);
+	}
+
+	public dispose() {
+		this.geometry.dispose();
+		this.material.dispose();
+	}
+}
@@ -20,6 +20,20 @@ export interface SkyAtmosphereSettings {
 	twilightHighColor: string;
 	twilightAmberColor: string;
 	twilightRoseColor: string;
+	/** Stars + moon; presets fade this 0 (day) → 1 (night) on the toggle progress. */
+	nightLayerOpacity: number;
+	starDensity: number;
+	starBrightness: number;
+	/** 0 new → 0.5 full → 1 new again. */
+	moonPhase: number;
+	moonAzimuth: number;
+	moonElevation: number;
+	/** 0 clear → 1 overcast. Clouds are part of the bake, so coverage also dims the IBL. */
+	cloudCoverage: number;
+	cloudAltitude: number;
+	cloudWindSpeed: number;
+	/** Degrees, same convention as sun azimuth. */
+	cloudWindDirection: number;
 }
 
 export const DEFAULT_SKY_ATMOSPHERE_SETTINGS: SkyAtmosphereSettings = {
@@ -42,6 +56,63 @@ export const DEFAULT_SKY_ATMOSPHERE_SETTINGS: SkyAtmosphereSettings = {
 	twilightHighColor: "#272772",
 	twilightAmberColor: "#ed681d",
 	twilightRoseColor: "#0c0209",
+	nightLayerOpacity: 0,
+	starDensity: 1,
+	starBrightness: 1,
+	moonPhase: 0.62,
+	moonAzimuth: 140,
+	moonElevation: 24,
+	cloudCoverage: 0.3,
+	cloudAltitude: 1,
+	cloudWindSpeed: 0.02,
+	cloudWindDirection: 30,
+};
+
+/** Radians per second the starfield turns about its pole — a stylised, much faster sidereal drift. */
+const STAR_ROTATION_SPEED = 0.004;
+
+const moonDirectionFrom = (settings: SkyAtmosphereSettings, target: THREE.Vector3) => {
+	const azimuth = THREE.MathUtils.degToRad(settings.moonAzimuth);
+	const elevation = THREE.MathUtils.degToRad(settings.moonElevation);
+	return target
+		.set(
+			Math.cos(azimuth) * Math.cos(elevation),
+			Math.sin(elevation),
+			Math.sin(azimuth) * Math.cos(elevation)
+		)
+		.normalize();
+};
+
+const windDirectionFrom = (settings: SkyAtmosphereSettings, target: THREE.Vector2) => {
+	const direction = THREE.MathUtils.degToRad(settings.cloudWindDirection);
+	return target.set(Math.cos(direction), Math.sin(direction));
+};
+
+/** Lit fraction of the moon disc for a phase in [0, 1]. */
+export const moonIllumination = (phase: number) => (1 - Math.cos(phase * Math.PI * 2)) / 2;
+
+/** Numbers lerp; palette hex strings blend in linear color space. */
+export const interpolateAtmosphereSettings = (
+	from: SkyAtmosphereSettings,
+	to: SkyAtmosphereSettings,
+	alpha: number
+): SkyAtmosphereSettings => {
+	const result = { ...from };
+
+	for (const key of Object.keys(from) as (keyof SkyAtmosphereSettings)[]) {
+		const start = from[key];
+		const end = to[key];
+
+		if (typeof start === "number" && typeof end === "number") {
+			(result as Record<string, number | string>)[key] = THREE.MathUtils.lerp(start, end, alpha);
+		} else if (typeof start === "string" && typeof end === "string") {
+			(result as Record<string, number | string>)[key] = `#${new THREE.Color(start)
+				.lerp(new THREE.Color(end), alpha)
+				.getHexString()}`;
+		}
+	}
+
+	return result;
 };
 
 const ATMOSPHERE_VERTEX_SHADER = `
@@ -77,6 +148,18 @@ uniform vec3 uTwilightLowColor;
 uniform vec3 uTwilightHighColor;
 uniform vec3 uTwilightAmberColor;
 uniform vec3 uTwilightRoseColor;
+uniform float uTime;
+uniform float uNightLayerEnabled;
+uniform float uNightLayerOpacity;
+uniform float uStarDensity;
+uniform float uStarBrightness;
+uniform float uStarRotation;
+uniform vec3 uMoonDirection;
+uniform float uMoonPhase;
+uniform float uCloudCoverage;
+uniform float uCloudAltitude;
+uniform float uCloudWindSpeed;
+uniform vec2 uCloudWindDirection;
 
 varying vec3 vWorldDirection;
 
@@ -206,24 +289,148 @@ float hash33(vec3 p3) {
 	return fract((p3.x + p3.y) * p3.z);
 }
 
+const vec3 STAR_POLE = vec3(0.0, 0.8, 0.6);
+const float MOON_ANGULAR_RADIUS = 0.035;
+
+vec3 rotateAboutAxis(vec3 v, vec3 axis, float angle) {
+	float c = cos(angle);
+	float s = sin(angle);
+	return v * c + cross(axis, v) * s + axis * dot(axis, v) * (1.0 - c);
+}
+
 // Sparse sub-pixel white dots, strongest toward the zenith at night
-float nightStarDots(vec3 rd) {
+float nightStarDots(vec3 viewDir) {
+	vec3 rd = rotateAboutAxis(viewDir, normalize(STAR_POLE), uStarRotation);
 	vec3 g = rd * 280.0;
 	vec3 cell = floor(g);
 	vec3 fracOff = fract(g) - 0.5;
 	float pick = hash33(cell);
-	if (pick < 0.9948) {
+	if (pick < 1.0 - 0.0052 * uStarDensity) {
 		return 0.0;
 	}
-	float brightness = 0.35 + 0.65 * hash33(cell + vec3(17.0, 41.0, 29.0));
+	float twinkleSeed = hash33(cell + vec3(5.0, 23.0, 3.0));
+	float twinkle = 0.75 + 0.25 * sin(uTime * (1.5 + twinkleSeed * 3.0) + twinkleSeed * 6.2831);
+	float brightness = (0.35 + 0.65 * hash33(cell + vec3(17.0, 41.0, 29.0))) * twinkle;
 	vec2 jitter = vec2(
 		hash33(cell + vec3(2.0, 5.0, 7.0)),
 		hash33(cell + vec3(11.0, 13.0, 17.0))
 	) - 0.5;
 	float dist = length(fracOff.xy + jitter * 0.32);
 	float dotMask = 1.0 - smoothstep(0.045, 0.11, dist);
-	float zenithFade = smoothstep(-0.32, 0.12, rd.y + uHorizonOffset * 0.3);
-	return brightness * dotMask * zenithFade * 0.42;
+	float zenithFade = smoothstep(-0.32, 0.12, viewDir.y + uHorizonOffset * 0.3);
+	return brightness * dotMask * zenithFade * 0.42 * uStarBrightness;
+}
+
+const int CLOUD_STEPS = 6;
+const float CLOUD_THICKNESS = 0.35;
+const float CLOUD_NOISE_SCALE = 1.2;
+const float CLOUD_EXTINCTION = 3.0;
+
+float hash12(vec2 p) {
+	vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+	p3 += dot(p3, p3.yzx + 33.33);
+	return fract((p3.x + p3.y) * p3.z);
+}
+
+float valueNoise(vec2 p) {
+	vec2 i = floor(p);
+	vec2 f = fract(p);
+	vec2 u = f * f * (3.0 - 2.0 * f);
+	return mix(
+		mix(hash12(i), hash12(i + vec2(1.0, 0.0)), u.x),
+		mix(hash12(i + vec2(0.0, 1.0)), hash12(i + vec2(1.0, 1.0)), u.x),
+		u.y
+	);
+}
+
+float cloudFbm(vec2 p) {
+	float value = 0.0;
+	float amplitude = 0.5;
+	for (int i = 0; i < 4; i++) {
+		value += amplitude * valueNoise(p);
+		p = p * 2.03 + vec2(1.7, 9.2);
+		amplitude *= 0.5;
+	}
+	return value;
+}
+
+// Coverage thresholds the fbm; the vertical profile rounds off the slab top and bottom.
+float cloudDensity(vec2 p, float heightFrac) {
+	vec2 wind = uCloudWindDirection * uCloudWindSpeed * uTime;
+	float n = cloudFbm(p * CLOUD_NOISE_SCALE + wind);
+	float coverage = smoothstep(1.0 - uCloudCoverage, 1.0 - uCloudCoverage + 0.3, n);
+	float profile = 1.0 - abs(heightFrac * 2.0 - 1.0);
+	return coverage * sqrt(max(profile, 0.0));
+}
+
+// 2.5D slab between uCloudAltitude and +CLOUD_THICKNESS: a short view march with a
+// two-tap march toward the sun. Returns premultiplied scattered light + opacity.
+vec4 cloudLayer(vec3 viewDir, vec3 sunDir, vec3 ambient) {
+	if (uCloudCoverage <= 0.0 || viewDir.y <= 0.02) {
+		return vec4(0.0);
+	}
+
+	float tBottom = uCloudAltitude / viewDir.y;
+	float tTop = (uCloudAltitude + CLOUD_THICKNESS) / viewDir.y;
+	float stepSize = (tTop - tBottom) / float(CLOUD_STEPS);
+
+	// Low sun tints the clouds with the twilight amber, then they go dark once it sets.
+	vec3 sunColor = mix(uTwilightAmberColor * 1.6, vec3(1.0, 0.97, 0.92), smoothstep(0.0, 0.35, sunDir.y))
+		* smoothstep(-0.12, 0.02, sunDir.y);
+	float phase = 0.6 + miePhase(dot(viewDir, sunDir), 0.55) * 2.0;
+	vec2 sunStep = normalize(sunDir.xz + vec2(0.0001)) * 0.12;
+
+	float transmittance = 1.0;
+	vec3 scattered = vec3(0.0);
+
+	for (int i = 0; i < CLOUD_STEPS; i++) {
+		float h = (float(i) + 0.5) / float(CLOUD_STEPS);
+		vec2 p = viewDir.xz * (tBottom + h * (tTop - tBottom));
+		float density = cloudDensity(p, h);
+		if (density <= 0.001) {
+			continue;
+		}
+
+		float towardSun =
+			cloudDensity(p + sunStep, min(h + 0.2, 1.0)) +
+			cloudDensity(p + sunStep * 2.0, min(h + 0.4, 1.0));
+		float lightTransmittance = exp(-towardSun * 1.6);
+		float stepOpacity = 1.0 - exp(-density * CLOUD_EXTINCTION * stepSize / CLOUD_THICKNESS);
+
+		scattered += transmittance * stepOpacity * (sunColor * lightTransmittance * phase + ambient);
+		transmittance *= 1.0 - stepOpacity;
+	}
+
+	float horizonFade = smoothstep(0.02, 0.12, viewDir.y);
+	float overcastDim = mix(1.0, 0.55, uCloudCoverage);
+	return vec4(scattered * horizonFade * overcastDim, (1.0 - transmittance) * horizonFade);
+}
+
+// Moon disc lit from the side by phase: 0 new, 0.5 full. Faint earthshine keeps the dark limb readable.
+vec3 moonDisc(vec3 viewDir) {
+	vec3 moonDir = normalize(uMoonDirection);
+	float facing = dot(viewDir, moonDir);
+	if (facing <= 0.0) {
+		return vec3(0.0);
+	}
+
+	vec3 right = normalize(cross(moonDir, vec3(0.0, 1.0, 0.0)) + vec3(0.0001));
+	vec3 up = cross(right, moonDir);
+	vec2 p = vec2(dot(viewDir, right), dot(viewDir, up)) / MOON_ANGULAR_RADIUS;
+	float r2 = dot(p, p);
+	if (r2 > 1.2) {
+		return vec3(0.0);
+	}
+
+	vec3 normal = vec3(p, sqrt(max(0.0, 1.0 - r2)));
+	float angle = uMoonPhase * 6.2831;
+	vec3 lightDir = vec3(sin(angle), 0.0, -cos(angle));
+	float lit = smoothstep(-0.04, 0.04, dot(normal, lightDir));
+	float maria = 0.85 + 0.15 * sin(p.x * 7.0 + 1.3) * sin(p.y * 5.0 - 0.7);
+	float edge = 1.0 - smoothstep(0.92, 1.0, r2);
+	vec3 moonColor = vec3(0.92, 0.93, 1.0) * (lit * maria + 0.04);
+	float horizonFade = smoothstep(-0.02, 0.04, viewDir.y + uHorizonOffset * 0.3);
+	return moonColor * edge * horizonFade * 1.6;
 }
 
 void main() {
@@ -254,8 +461,19 @@ void main() {
 	// blue-hour palette in the references without introducing a separate night model.
 	color = color * uSkyMultiplier + daySky + twilightSky + nightSky;
 
-	float stars = nightStarDots(viewDir) * nightAmount;
-	color += vec3(stars);
+	vec3 cloudAmbient = mix(
+		uNightZenithColor * uNightSkyStrength,
+		mix(uDayHorizonColor, uDayZenithColor, 0.5) * uDaySkyStrength,
+		dayAmount
+	) * 0.7;
+	vec4 clouds = cloudLayer(viewDir, sunDir, cloudAmbient);
+	color = color * (1.0 - clouds.a) + clouds.rgb;
+
+	float nightLayer = uNightLayerEnabled * uNightLayerOpacity * nightAmount * (1.0 - clouds.a);
+	if (nightLayer > 0.0) {
+		color += vec3(nightStarDots(viewDir)) * nightLayer;
+		color += moonDisc(viewDir) * nightLayer;
+	}
 
 	gl_FragColor = vec4(color, 1.0);
 }
@@ -296,6 +514,18 @@ export class SkyAtmosphere {
 				uTwilightHighColor: { value: new THREE.Color(this.settings.twilightHighColor) },
 				uTwilightAmberColor: { value: new THREE.Color(this.settings.twilightAmberColor) },
 				uTwilightRoseColor: { value: new THREE.Color(this.settings.twilightRoseColor) },
+				uTime: { value: 0 },
+				uNightLayerEnabled: { value: 1 },
+				uNightLayerOpacity: { value: this.settings.nightLayerOpacity },
+				uStarDensity: { value: this.settings.starDensity },
+				uStarBrightness: { value: this.settings.starBrightness },
+				uStarRotation: { value: 0 },
+				uMoonDirection: { value: moonDirectionFrom(this.settings, new THREE.Vector3()) },
+				uMoonPhase: { value: this.settings.moonPhase },
+				uCloudCoverage: { value: this.settings.cloudCoverage },
+				uCloudAltitude: { value: this.settings.cloudAltitude },
+				uCloudWindSpeed: { value: this.settings.cloudWindSpeed },
+				uCloudWindDirection: { value: windDirectionFrom(this.settings, new THREE.Vector2()) },
 			},
 		});
 
@@ -334,6 +564,33 @@ export class SkyAtmosphere {
 		this.material.uniforms.uTwilightHighColor.value.set(this.settings.twilightHighColor);
 		this.material.uniforms.uTwilightAmberColor.value.set(this.settings.twilightAmberColor);
 		this.material.uniforms.uTwilightRoseColor.value.set(this.settings.twilightRoseColor);
+		this.material.uniforms.uNightLayerOpacity.value = this.settings.nightLayerOpacity;
+		this.material.uniforms.uStarDensity.value = this.settings.starDensity;
+		this.material.uniforms.uStarBrightness.value = this.settings.starBrightness;
+		this.material.uniforms.uMoonPhase.value = this.settings.moonPhase;
+		moonDirectionFrom(this.settings, this.material.uniforms.uMoonDirection.value);
+		this.material.uniforms.uCloudCoverage.value = this.settings.cloudCoverage;
+		this.material.uniforms.uCloudAltitude.value = this.settings.cloudAltitude;
+		this.material.uniforms.uCloudWindSpeed.value = this.settings.cloudWindSpeed;
+		windDirectionFrom(this.settings, this.material.uniforms.uCloudWindDirection.value);
+	}
+
+	/** Drives twinkle and the starfield rotation; only the live background picks it up between bakes. */
+	public setTime(seconds: number) {
+		this.material.uniforms.uTime.value = seconds;
+		this.material.uniforms.uStarRotation.value = seconds * STAR_ROTATION_SPEED;
+	}
+
+	public setNightLayerEnabled(enabled: boolean) {
+		this.material.uniforms.uNightLayerEnabled.value = enabled ? 1 : 0;
+	}
+
+	public isNightLayerEnabled() {
+		return this.material.uniforms.uNightLayerEnabled.value > 0;
+	}
+
+	public getMoonDirection(target = new THREE.Vector3()) {
+		return target.copy(this.material.uniforms.uMoonDirection.value);
 	}
 
 	public getSettings() {
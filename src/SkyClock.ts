@@ -0,0 +1,87 @@
+export type SkyClockSource = "wall" | "accelerated" | "scrub";
+
+export const SKY_CLOCK_SOURCES: SkyClockSource[] = ["wall", "accelerated", "scrub"];
+
+/** Sky hours per real hour in accelerated mode (720 → a full day every 2 minutes). */
+export const DEFAULT_SKY_CLOCK_SPEED = 720;
+
+/** Sun azimuth at 18:00 — matches the night preset so dusk glows where the camera looks. */
+const SUNSET_AZIMUTH_DEG = 116;
+const SUN_MAX_ELEVATION_DEG = 55;
+const MS_PER_HOUR = 3_600_000;
+
+const wrapHours = (hours: number) => ((hours % 24) + 24) % 24;
+
+/**
+ * Sun position for a local time of day. Sunrise at 06:00 and sunset at 18:00, noon
+ * peaks at `SUN_MAX_ELEVATION_DEG`; the azimuth sweeps a half turn across the day.
+ */
+export const sunPositionAt = (hours: number) => {
+	const dayAngle = ((wrapHours(hours) - 6) / 24) * Math.PI * 2;
+	return {
+		sunAzimuth: SUNSET_AZIMUTH_DEG + ((wrapHours(hours) - 18) / 12) * 180,
+		sunElevation: Math.sin(dayAngle) * SUN_MAX_ELEVATION_DEG,
+	};
+};
+
+/** Time source for the continuous day/night cycle: wall clock, sped-up clock, or a fixed scrubbed hour. */
+export class SkyClock {
+	private source: SkyClockSource = "wall";
+	private speed = DEFAULT_SKY_CLOCK_SPEED;
+	private anchorHours = 0;
+	private anchorTime = 0;
+
+	public getHours(now = Date.now()) {
+		switch (this.source) {
+			case "wall": {
+				const date = new Date(now);
+				return (
+					date.getHours() +
+					date.getMinutes() / 60 +
+					date.getSeconds() / 3600 +
+					date.getMilliseconds() / MS_PER_HOUR
+				);
+			}
+			case "accelerated":
+				return wrapHours(
+					this.anchorHours + ((now - this.anchorTime) / MS_PER_HOUR) * this.speed
+				);
+			case "scrub":
+				return this.anchorHours;
+		}
+	}
+
+	public getSource() {
+		return this.source;
+	}
+
+	public getSpeed() {
+		return this.speed;
+	}
+
+	/** Switching source keeps the current hour so the sun does not jump. */
+	public setSource(source: SkyClockSource, now = Date.now()) {
+		const hours = this.getHours(now);
+		this.source = source;
+		this.anchor(hours, now);
+	}
+
+	public setSpeed(speed: number, now = Date.now()) {
+		const hours = this.getHours(now);
+		this.speed = speed;
+		this.anchor(hours, now);
+	}
+
+	/** Scrubs to `hours`; the wall clock cannot be scrubbed, so it drops into `scrub`. */
+	public setHours(hours: number, now = Date.now()) {
+		if (this.source === "wall") {
+			this.source = "scrub";
+		}
+		this.anchor(hours, now);
+	}
+
+	private anchor(hours: number, now: number) {
+		this.anchorHours = wrapHours(hours);
+		this.anchorTime = now;
+	}
+}
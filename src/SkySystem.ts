@@ -2,16 +2,74 @@ import * as THREE from "three";
 import * as dat from "dat.gui";
 import {
 	DEFAULT_SKY_ATMOSPHERE_SETTINGS,
+	interpolateAtmosphereSettings,
+	moonIllumination,
 	SkyAtmosphere,
 	SkyAtmosphereSettings,
 } from "./SkyAtmosphere";
 import {
+	DEFAULT_SKY_CLOCK_SPEED,
+	SKY_CLOCK_SOURCES,
+	SkyClock,
+	SkyClockSource,
+	sunPositionAt,
+} from "./SkyClock";
+import {
+	deleteSkyPreset,
+	loadSkyLibrary,
+	parseSkyPreset,
+	readSkyPresetFromSearch,
+	renameSkyPreset,
+	saveSkyPreset,
+	SKY_PRESET_VERSION,
+	SkyPreset,
+} from "./skyPresets";
+import {
+	cloneKeyframe,
 	DEFAULT_SKY_TRANSITION_MS,
+	interpolateState,
+	SKY_EASINGS,
+	SkyEasing,
+	SkyKeyframe,
+	SkyTimeline,
 	SkyToggle,
 	SkyTransitionState,
 } from "./SkyToggle";
 
-export type SkyMode = "day" | "night";
+/** A keyframe preset's name, checked against the current keyframes; see `SkySystem.parseMode`. */
+export type SkyKeyframeName = string & { readonly __skyKeyframe: true };
+
+/**
+ * A keyframe preset (`day` and `night` are built in, others by checked name), `cycle` to follow
+ * `SkyClock`, or `timeline` to play through the keyframes in order.
+ */
+export type SkyMode = "day" | "night" | typeof CYCLE_MODE | typeof TIMELINE_MODE | SkyKeyframeName;
+
+/** Weather layered over whatever the current mode produces; see `WeatherSystem`. */
+export interface SkyWeatherOverlay {
+	/** Floor on the palette's cloud coverage. */
+	cloudCoverage: number;
+	fogDensityScale: number;
+	fogColor: THREE.Color;
+	/** 0 keeps the mode's fog colour, 1 uses `fogColor`. */
+	fogColorMix: number;
+	exposureScale: number;
+	sunLightScale: number;
+}
+
+export const CLEAR_SKY_WEATHER: SkyWeatherOverlay = {
+	cloudCoverage: 0,
+	fogDensityScale: 1,
+	fogColor: new THREE.Color("#e9eef0"),
+	fogColorMix: 0,
+	exposureScale: 1,
+	sunLightScale: 1,
+};
+
+const CYCLE_MODE = "cycle";
+const TIMELINE_MODE = "timeline";
+const DEFAULT_KEYFRAME_DURATION_MS = 6000;
+const SKY_EASING_NAMES = Object.keys(SKY_EASINGS) as SkyEasing[];
 
 const directionFromAzimuthElevation = (azimuth: number, elevation: number) => {
 	const azimuthRad = THREE.MathUtils.degToRad(azimuth);
@@ -25,6 +83,8 @@ const directionFromAzimuthElevation = (azimuth: number, elevation: number) => {
 	).normalize();
 };
 
+const luminanceOf = (color: THREE.Color) => 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b;
+
 const directionToAzimuthElevation = (direction: THREE.Vector3) => {
 	const normalized = direction.clone().normalize();
 	return {
@@ -67,14 +127,154 @@ const NIGHT_STATE: SkyTransitionState = {
 	exposure: 0.35,
 };
 
-const SKY_STATES: Record<SkyMode, SkyTransitionState> = {
-	day: DAY_STATE,
-	night: NIGHT_STATE,
+const GOLDEN_HOUR_STATE: SkyTransitionState = {
+	sunDirection: directionFromAzimuthElevation(116, 4),
+	directionalLightIntensity: 1.1,
+	directionalLightColor: new THREE.Color("#ffb36b"),
+	ambientLightIntensity: 0.3,
+	ambientLightColor: new THREE.Color("#c9a184"),
+	fogDensity: 0.026,
+	fogColor: new THREE.Color("#d8b598"),
+	exposure: 0.6,
+};
+
+const DAWN_STATE: SkyTransitionState = {
+	sunDirection: directionFromAzimuthElevation(-60, -4),
+	directionalLightIntensity: 0.35,
+	directionalLightColor: new THREE.Color("#ffc3a0"),
+	ambientLightIntensity: 0.22,
+	ambientLightColor: new THREE.Color("#6b6f8f"),
+	fogDensity: 0.027,
+	fogColor: new THREE.Color("#b9a9b3"),
+	exposure: 0.45,
+};
+
+const MORNING_STATE: SkyTransitionState = {
+	sunDirection: directionFromAzimuthElevation(-30, 18),
+	directionalLightIntensity: 1.5,
+	directionalLightColor: new THREE.Color("#fff0dc"),
+	ambientLightIntensity: 0.42,
+	ambientLightColor: new THREE.Color("#e6ecf5"),
+	fogDensity: 0.025,
+	fogColor: new THREE.Color("#e3e6ea"),
+	exposure: 0.7,
+};
+
+const DUSK_STATE: SkyTransitionState = {
+	sunDirection: directionFromAzimuthElevation(114, -3),
+	directionalLightIntensity: 0.2,
+	directionalLightColor: new THREE.Color("#d8a0c0"),
+	ambientLightIntensity: 0.18,
+	ambientLightColor: new THREE.Color("#3a3a66"),
+	fogDensity: 0.027,
+	fogColor: new THREE.Color("#6a5a72"),
+	exposure: 0.42,
+};
+
+const DAY_ATMOSPHERE: SkyAtmosphereSettings = { ...DEFAULT_SKY_ATMOSPHERE_SETTINGS };
+
+/** Softer Mie halo, warmer afterglow and a deeper navy zenith than the day palette. */
+const NIGHT_ATMOSPHERE: SkyAtmosphereSettings = {
+	...DEFAULT_SKY_ATMOSPHERE_SETTINGS,
+	mieStrength: 12.4,
+	ozoneStrength: 12,
+	nightSkyStrength: 1.3,
+	twilightAmberStrength: 0.62,
+	nightHorizonColor: "#01021f",
+	nightZenithColor: "#020a26",
+	twilightHighColor: "#1f1f66",
+	nightLayerOpacity: 1,
+};
+
+/** Peak moon light at full moon with the night layer fully faded in. */
+const MOON_LIGHT_INTENSITY = 0.12;
+
+const TWILIGHT_ATMOSPHERE = interpolateAtmosphereSettings(DAY_ATMOSPHERE, NIGHT_ATMOSPHERE, 0.5);
+
+const keyframe = (
+	name: string,
+	state: SkyTransitionState,
+	atmosphere: SkyAtmosphereSettings
+): SkyKeyframe => ({
+	name,
+	state,
+	atmosphere: { ...atmosphere },
+	durationMs: DEFAULT_KEYFRAME_DURATION_MS,
+	easing: "easeInOutCubic",
+});
+
+/** Built-in presets, in timeline order. `day` / `night` are the pill + `M`/`N` targets. */
+const DEFAULT_SKY_KEYFRAMES: SkyKeyframe[] = [
+	keyframe("dawn", DAWN_STATE, TWILIGHT_ATMOSPHERE),
+	keyframe("morning", MORNING_STATE, DAY_ATMOSPHERE),
+	keyframe("day", DAY_STATE, DAY_ATMOSPHERE),
+	keyframe("golden-hour", GOLDEN_HOUR_STATE, DAY_ATMOSPHERE),
+	keyframe("dusk", DUSK_STATE, TWILIGHT_ATMOSPHERE),
+	keyframe("night", NIGHT_STATE, NIGHT_ATMOSPHERE),
+];
+
+/** Sun elevations (deg) where the cycle is fully night, golden hour and day. */
+const CYCLE_NIGHT_ELEVATION_DEG = -8;
+const CYCLE_GOLDEN_ELEVATION_DEG = 4;
+const CYCLE_DAY_ELEVATION_DEG = 20;
+/** Cycle mode re-bakes cubemap + PMREM only once the sun has moved this far. */
+const CYCLE_REBAKE_THRESHOLD_RAD = THREE.MathUtils.degToRad(0.5);
+
+/** Lights, fog and exposure blend night → golden hour → day by sun elevation; the sun follows the clock. */
+const cycleStateAt = (hours: number): SkyTransitionState => {
+	const { sunAzimuth, sunElevation } = sunPositionAt(hours);
+	const state =
+		sunElevation >= CYCLE_GOLDEN_ELEVATION_DEG
+			? interpolateState(
+					GOLDEN_HOUR_STATE,
+					DAY_STATE,
+					THREE.MathUtils.smoothstep(
+						sunElevation,
+						CYCLE_GOLDEN_ELEVATION_DEG,
+						CYCLE_DAY_ELEVATION_DEG
+					)
+				)
+			: interpolateState(
+					NIGHT_STATE,
+					GOLDEN_HOUR_STATE,
+					THREE.MathUtils.smoothstep(
+						sunElevation,
+						CYCLE_NIGHT_ELEVATION_DEG,
+						CYCLE_GOLDEN_ELEVATION_DEG
+					)
+				);
+	state.sunDirection = directionFromAzimuthElevation(sunAzimuth, sunElevation);
+	return state;
 };
 
+/** The palette follows the same elevation band, night → day. */
+const cycleAtmosphereAt = (hours: number): SkyAtmosphereSettings =>
+	interpolateAtmosphereSettings(
+		NIGHT_ATMOSPHERE,
+		DAY_ATMOSPHERE,
+		THREE.MathUtils.smoothstep(
+			sunPositionAt(hours).sunElevation,
+			CYCLE_NIGHT_ELEVATION_DEG,
+			CYCLE_DAY_ELEVATION_DEG
+		)
+	);
+
 const colorToHex = (color: THREE.Color) => `#${color.getHexString()}`;
 
 type SkyControlValues = SkyAtmosphereSettings & {
+	mode: SkyMode;
+	keyframe: string;
+	keyframeName: string;
+	keyframeEasing: SkyEasing;
+	keyframeDurationMs: number;
+	loopTimeline: boolean;
+	insertKeyframe: () => void;
+	moveKeyframeUp: () => void;
+	moveKeyframeDown: () => void;
+	deleteKeyframe: () => void;
+	clockSource: SkyClockSource;
+	clockSpeed: number;
+	clockHour: number;
 	sunAzimuth: number;
 	sunElevation: number;
 	exposure: number;
@@ -84,13 +284,24 @@ type SkyControlValues = SkyAtmosphereSettings & {
 	ambientLightColor: string;
 	fogDensity: number;
 	fogColor: string;
+	nightLayerEnabled: boolean;
+	libraryPreset: string;
+	libraryName: string;
+	/** Outcome of the last copy or import, shown read-only under the JSON actions. */
+	jsonStatus: string;
 	toggleDayNight: () => void;
 	copyJSON: () => void;
+	pasteJSON: () => void;
+	saveToLibrary: () => void;
+	loadFromLibrary: () => void;
+	renameInLibrary: () => void;
+	deleteFromLibrary: () => void;
 };
 
 export class SkySystem {
 	public readonly ambientLight: THREE.AmbientLight;
 	public readonly directionalLight: THREE.DirectionalLight;
+	public readonly moonLight: THREE.DirectionalLight;
 
 	private readonly scene: THREE.Scene;
 	private readonly renderer: THREE.WebGLRenderer;
@@ -101,9 +312,18 @@ export class SkySystem {
 	private readonly atmosphere = new SkyAtmosphere();
 	private readonly pmremGenerator: THREE.PMREMGenerator;
 	private readonly toggle: SkyToggle;
+	private readonly clock = new SkyClock();
+	private readonly timeline = new SkyTimeline();
+	private keyframes: SkyKeyframe[] = DEFAULT_SKY_KEYFRAMES.map(cloneKeyframe);
+	private readonly sunDirection = new THREE.Vector3();
+	private readonly bakedSunDirection = new THREE.Vector3();
 	private environmentTarget?: THREE.WebGLRenderTarget;
 	private mode: SkyMode = "day";
+	private weather: SkyWeatherOverlay = { ...CLEAR_SKY_WEATHER, fogColor: CLEAR_SKY_WEATHER.fogColor.clone() };
 	private guiControllers: dat.GUIController[] = [];
+	private modeController?: dat.GUIController;
+	private keyframeController?: dat.GUIController;
+	private libraryController?: dat.GUIController;
 	private controls: SkyControlValues = this.createControlValues(DAY_STATE);
 	/** Invoked after `toggleMode()` completes (keyboard / GUI), not after `setMode` (pill / init). */
 	private afterToggleMode?: () => void;
@@ -114,11 +334,13 @@ export class SkySystem {
 		this.camera = camera;
 		this.ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
 		this.directionalLight = this.createDirectionalLight();
+		this.moonLight = new THREE.DirectionalLight(0xa9b8ff, 0);
 
 		this.scene.background = null;
 		this.scene.add(this.atmosphere.backgroundMesh);
 		this.scene.add(this.ambientLight);
 		this.scene.add(this.directionalLight);
+		this.scene.add(this.moonLight);
 
 		this.skyScene.add(this.atmosphere.mesh);
 
@@ -134,8 +356,10 @@ export class SkySystem {
 		this.pmremGenerator = new THREE.PMREMGenerator(this.renderer);
 		this.pmremGenerator.compileCubemapShader();
 
-		this.toggle = new SkyToggle(DAY_STATE, (state) => this.applyState(state));
-		this.applyState(DAY_STATE);
+		this.toggle = new SkyToggle(DAY_STATE, DAY_ATMOSPHERE, (state, atmosphere) =>
+			this.applyState(state, atmosphere)
+		);
+		this.applyState(DAY_STATE, DAY_ATMOSPHERE);
 		this.bake(true);
 	}
 
@@ -147,41 +371,143 @@ export class SkySystem {
 		this.afterToggleMode = handler;
 	}
 
+	/** Day ↔ night; from any other mode it jumps to whichever is opposite the current sun. */
 	public toggleMode() {
-		this.mode = this.mode === "day" ? "night" : "day";
-		this.toggle.toggle(SKY_STATES[this.mode], DEFAULT_SKY_TRANSITION_MS);
-		this.syncControlsFromState(SKY_STATES[this.mode]);
+		const isDaylight =
+			this.mode === "day" || (this.mode !== "night" && this.sunDirection.y > 0);
+		this.setMode(isDaylight ? "night" : "day");
 		this.afterToggleMode?.();
 	}
 
+	public getPresetNames() {
+		return this.keyframes.map((keyframe) => keyframe.name as SkyKeyframeName);
+	}
+
+	/** `null` unless `name` is `cycle`, `timeline` or one of the current keyframes. */
+	public parseMode(name: string): SkyMode | null {
+		if (name === CYCLE_MODE || name === TIMELINE_MODE) return name;
+		return this.findKeyframe(name) ? (name as SkyKeyframeName) : null;
+	}
+
+	/** Tweens to a keyframe preset by name, or enters `cycle` / `timeline`. Unknown names are ignored. */
 	public setMode(mode: SkyMode, durationMs = DEFAULT_SKY_TRANSITION_MS) {
+		let state: SkyTransitionState;
+		let atmosphere: SkyAtmosphereSettings;
+
+		if (mode === CYCLE_MODE) {
+			const hours = this.clock.getHours();
+			state = cycleStateAt(hours);
+			atmosphere = cycleAtmosphereAt(hours);
+		} else {
+			const keyframe =
+				mode === TIMELINE_MODE ? this.keyframes[0] : this.findKeyframe(mode);
+			if (!keyframe) {
+				console.warn(`[sky] Unknown sky preset "${mode}"`);
+				return;
+			}
+			state = keyframe.state;
+			atmosphere = keyframe.atmosphere;
+			this.controls.keyframe = keyframe.name;
+			this.controls.keyframeEasing = keyframe.easing;
+			this.controls.keyframeDurationMs = keyframe.durationMs;
+		}
+
 		this.mode = mode;
-		this.toggle.toggle(SKY_STATES[this.mode], durationMs);
-		this.syncControlsFromState(SKY_STATES[this.mode]);
+		this.controls.mode = mode;
+		this.timeline.stop();
+		if (mode === TIMELINE_MODE) {
+			this.timeline.play(this.keyframes, this.controls.loopTimeline);
+		}
+		this.toggle.toggle(state, durationMs, atmosphere);
+		Object.assign(this.controls, atmosphere);
+		this.syncControlsFromState(state);
 	}
 
 	public update() {
 		this.atmosphere.backgroundMesh.position.copy(this.camera.position);
+		this.atmosphere.setTime(performance.now() / 1000);
 		const changed = this.toggle.update();
 
 		if (changed) {
 			this.bake(true);
+			return;
+		}
+
+		if (this.mode === CYCLE_MODE) {
+			this.updateCycle();
+		} else if (this.mode === TIMELINE_MODE) {
+			this.updateTimeline();
+		}
+	}
+
+	/** Re-applies the current mode under the new weather; a running sky tween picks it up on its own. */
+	public setWeatherOverlay(overlay: SkyWeatherOverlay) {
+		this.weather = { ...overlay, fogColor: overlay.fogColor.clone() };
+		this.applyState(this.toggle.getState(), this.toggle.getAtmosphere());
+
+		if (!this.toggle.isActive()) {
+			this.bake(true);
 		}
 	}
 
 	public dispose() {
 		this.atmosphere.dispose();
+		this.moonLight.dispose();
 		this.cubeTarget.dispose();
 		this.environmentTarget?.dispose();
 		this.pmremGenerator.dispose();
 	}
 
+	public applyPreset(preset: SkyPreset) {
+		this.controls.sunAzimuth = preset.sun.azimuth;
+		this.controls.sunElevation = preset.sun.elevation;
+		Object.assign(this.controls, preset.atmosphere);
+		this.controls.exposure = preset.lighting.exposure;
+		this.controls.directionalLightIntensity = preset.lighting.directionalLightIntensity;
+		this.controls.directionalLightColor = preset.lighting.directionalLightColor;
+		this.controls.ambientLightIntensity = preset.lighting.ambientLightIntensity;
+		this.controls.ambientLightColor = preset.lighting.ambientLightColor;
+		this.controls.fogDensity = preset.fog.density;
+		this.controls.fogColor = preset.fog.color;
+		this.timeline.stop();
+		this.applyControls();
+		this.refreshGUI();
+	}
+
+	/** Validates, migrates and applies a preset; the outcome shows in the GUI's JSON status. */
+	public importJSON(json: unknown): string | null {
+		const result = parseSkyPreset(json);
+		if ("error" in result) {
+			this.setJSONStatus(`Import failed: ${result.error}`);
+			return result.error;
+		}
+		this.applyPreset(result.preset);
+		this.setJSONStatus("Sky preset imported");
+		return null;
+	}
+
+	/** Applies `?sky=` if present; call after the initial `setMode` so it is not overwritten. */
+	public importFromURL(search = window.location.search) {
+		const result = readSkyPresetFromSearch(search);
+		if (!result) return;
+
+		if ("error" in result) {
+			console.error("[sky] Ignoring ?sky= parameter:", result.error);
+			return;
+		}
+		this.applyPreset(result.preset);
+	}
+
 	public setupGUI(gui: dat.GUI) {
 		const skyFolder = gui.addFolder("Sky Controls");
 		const sunFolder = skyFolder.addFolder("Sun + Horizon");
 		const atmosphereFolder = skyFolder.addFolder("Atmosphere");
 		const lightingFolder = skyFolder.addFolder("Lighting + Fog");
 		const paletteFolder = skyFolder.addFolder("Palette");
+		const cloudFolder = skyFolder.addFolder("Clouds");
+		const nightFolder = skyFolder.addFolder("Night Sky");
+		const timeFolder = skyFolder.addFolder("Time of Day");
+		const libraryFolder = skyFolder.addFolder("Library");
 		const actionsFolder = skyFolder.addFolder("Actions");
 
 		this.addController(sunFolder, this.controls, "sunAzimuth", -180, 180, 0.1)
@@ -272,13 +598,115 @@ export class SkySystem {
 			.name("Rose Color")
 			.onChange(() => this.applyControls());
 
+		this.addController(cloudFolder, this.controls, "cloudCoverage", 0, 1, 0.01)
+			.name("Coverage")
+			.onChange(() => this.applyControls());
+		this.addController(cloudFolder, this.controls, "cloudAltitude", 0.3, 4, 0.01)
+			.name("Altitude")
+			.onChange(() => this.applyControls());
+		this.addController(cloudFolder, this.controls, "cloudWindSpeed", 0, 0.2, 0.001)
+			.name("Wind Speed")
+			.onChange(() => this.applyControls());
+		this.addController(cloudFolder, this.controls, "cloudWindDirection", -180, 180, 0.1)
+			.name("Wind Direction")
+			.onChange(() => this.applyControls());
+
+		this.addValueController(nightFolder, this.controls, "nightLayerEnabled")
+			.name("Stars + Moon")
+			.onChange((enabled: boolean) => {
+				this.atmosphere.setNightLayerEnabled(enabled);
+				this.applyControls();
+			});
+		this.addController(nightFolder, this.controls, "nightLayerOpacity", 0, 1, 0.01)
+			.name("Night Layer")
+			.onChange(() => this.applyControls());
+		this.addController(nightFolder, this.controls, "starDensity", 0, 4, 0.01)
+			.name("Star Density")
+			.onChange(() => this.applyControls());
+		this.addController(nightFolder, this.controls, "starBrightness", 0, 3, 0.01)
+			.name("Star Brightness")
+			.onChange(() => this.applyControls());
+		this.addController(nightFolder, this.controls, "moonPhase", 0, 1, 0.01)
+			.name("Moon Phase")
+			.onChange(() => this.applyControls());
+		this.addController(nightFolder, this.controls, "moonAzimuth", -180, 180, 0.1)
+			.name("Moon Azimuth")
+			.onChange(() => this.applyControls());
+		this.addController(nightFolder, this.controls, "moonElevation", -10, 80, 0.1)
+			.name("Moon Elevation")
+			.onChange(() => this.applyControls());
+
+		this.modeController = this.addOptionController(
+			timeFolder,
+			this.controls,
+			"mode",
+			this.modeOptions()
+		);
+		this.bindModeController();
+		this.addOptionController(timeFolder, this.controls, "clockSource", SKY_CLOCK_SOURCES)
+			.name("Clock")
+			.onChange((source: SkyClockSource) => this.clock.setSource(source));
+		this.addController(timeFolder, this.controls, "clockSpeed", 1, 3600, 1)
+			.name("Speed (x)")
+			.onChange((speed: number) => this.clock.setSpeed(speed));
+		this.addController(timeFolder, this.controls, "clockHour", 0, 24, 0.01)
+			.name("Hour")
+			.onChange((hours: number) => this.scrubClock(hours));
+
 		actionsFolder.add(this.controls, "toggleDayNight").name("Toggle Day/Night");
+		this.keyframeController = this.addOptionController(
+			actionsFolder,
+			this.controls,
+			"keyframe",
+			this.getPresetNames()
+		);
+		this.bindKeyframeController();
+		this.addValueController(actionsFolder, this.controls, "keyframeName").name("New Key Name");
+		this.addOptionController(actionsFolder, this.controls, "keyframeEasing", SKY_EASING_NAMES)
+			.name("Key Easing")
+			.onChange((easing: SkyEasing) => {
+				const keyframe = this.findKeyframe(this.controls.keyframe);
+				if (keyframe) keyframe.easing = easing;
+			});
+		this.addController(actionsFolder, this.controls, "keyframeDurationMs", 0, 30000, 100)
+			.name("Key Duration (ms)")
+			.onChange((durationMs: number) => {
+				const keyframe = this.findKeyframe(this.controls.keyframe);
+				if (keyframe) keyframe.durationMs = durationMs;
+			});
+		this.addValueController(actionsFolder, this.controls, "loopTimeline")
+			.name("Loop Timeline")
+			.onChange((loop: boolean) => this.timeline.setLoop(loop));
+		actionsFolder.add(this.controls, "insertKeyframe").name("Insert Keyframe");
+		actionsFolder.add(this.controls, "moveKeyframeUp").name("Move Key Up");
+		actionsFolder.add(this.controls, "moveKeyframeDown").name("Move Key Down");
+		actionsFolder.add(this.controls, "deleteKeyframe").name("Delete Keyframe");
 		actionsFolder.add(this.controls, "copyJSON").name("Copy JSON");
+		actionsFolder.add(this.controls, "pasteJSON").name("Paste JSON");
+		const statusInput = this.addValueController(actionsFolder, this.controls, "jsonStatus")
+			.name("JSON Status")
+			.domElement.querySelector("input");
+		if (statusInput) statusInput.readOnly = true;
+
+		this.libraryController = this.addOptionController(
+			libraryFolder,
+			this.controls,
+			"libraryPreset",
+			this.libraryNames()
+		).name("Saved Sky");
+		this.addValueController(libraryFolder, this.controls, "libraryName").name("Name");
+		libraryFolder.add(this.controls, "saveToLibrary").name("Save Current");
+		libraryFolder.add(this.controls, "loadFromLibrary").name("Load");
+		libraryFolder.add(this.controls, "renameInLibrary").name("Rename To Name");
+		libraryFolder.add(this.controls, "deleteFromLibrary").name("Delete");
+
+		this.setupDropImport();
 
 		skyFolder.open();
 		sunFolder.open();
 		atmosphereFolder.open();
 		lightingFolder.open();
+		timeFolder.open();
 		actionsFolder.open();
 	}
 
@@ -295,29 +723,180 @@ export class SkySystem {
 		return directionalLight;
 	}
 
-	private applyState(state: SkyTransitionState) {
+	private findKeyframe(name: string) {
+		return this.keyframes.find((keyframe) => keyframe.name === name);
+	}
+
+	private modeOptions() {
+		return [...this.getPresetNames(), CYCLE_MODE, TIMELINE_MODE];
+	}
+
+	private bindModeController() {
+		this.modeController
+			?.name("Mode")
+			.onChange((mode: string) => this.setModeByName(mode));
+	}
+
+	private bindKeyframeController() {
+		this.keyframeController
+			?.name("Keyframe")
+			.onChange((name: string) => this.setModeByName(name));
+	}
+
+	/** dat.GUI hands back plain strings. */
+	private setModeByName(name: string) {
+		const mode = this.parseMode(name);
+		if (mode) this.setMode(mode);
+	}
+
+	/** dat.GUI rebuilds option controllers from scratch, so swap them in `guiControllers` for `refreshGUI`. */
+	private replaceOptions(controller: dat.GUIController | undefined, options: string[]) {
+		if (!controller) return undefined;
+		const next = controller.options(options);
+		this.guiControllers = this.guiControllers.map((c) => (c === controller ? next : c));
+		return next;
+	}
+
+	private refreshKeyframeOptions() {
+		this.modeController = this.replaceOptions(this.modeController, this.modeOptions());
+		this.keyframeController = this.replaceOptions(this.keyframeController, this.getPresetNames());
+		this.bindModeController();
+		this.bindKeyframeController();
+		this.refreshGUI();
+	}
+
+	/** Captures the current controls as a new keyframe right after the selected one. */
+	private insertKeyframe() {
+		const base = this.controls.keyframeName.trim() || "keyframe";
+		let name = base;
+		for (let n = 2; this.findKeyframe(name) || name === CYCLE_MODE || name === TIMELINE_MODE; n++) {
+			name = `${base}-${n}`;
+		}
+
+		const index = this.keyframes.findIndex((keyframe) => keyframe.name === this.controls.keyframe);
+		this.keyframes.splice(index + 1, 0, {
+			name,
+			state: this.stateFromControls(),
+			atmosphere: this.atmosphereSettingsFromControls(),
+			durationMs: this.controls.keyframeDurationMs,
+			easing: this.controls.keyframeEasing,
+		});
+		this.controls.keyframe = name;
+		this.mode = name as SkyKeyframeName;
+		this.controls.mode = this.mode;
+		this.refreshKeyframeOptions();
+	}
+
+	private moveKeyframe(offset: -1 | 1) {
+		const index = this.keyframes.findIndex((keyframe) => keyframe.name === this.controls.keyframe);
+		const target = index + offset;
+		if (index === -1 || target < 0 || target >= this.keyframes.length) return;
+
+		const [keyframe] = this.keyframes.splice(index, 1);
+		this.keyframes.splice(target, 0, keyframe);
+		this.refreshKeyframeOptions();
+	}
+
+	/**
+	 * The last keyframe cannot be deleted; the selection moves to its neighbour, and so does the mode
+	 * when it was showing the deleted keyframe.
+	 */
+	private deleteKeyframe() {
+		const index = this.keyframes.findIndex((keyframe) => keyframe.name === this.controls.keyframe);
+		if (index === -1 || this.keyframes.length <= 1) return;
+
+		const [deleted] = this.keyframes.splice(index, 1);
+		const neighbour = this.keyframes[Math.min(index, this.keyframes.length - 1)];
+		if (this.mode === deleted.name) {
+			this.setMode(neighbour.name as SkyKeyframeName);
+		}
+		this.controls.keyframe = neighbour.name;
+		this.controls.keyframeEasing = neighbour.easing;
+		this.controls.keyframeDurationMs = neighbour.durationMs;
+		this.refreshKeyframeOptions();
+	}
+
+	private updateTimeline() {
+		const sample = this.timeline.update();
+		if (!sample) return;
+
+		this.toggle.setState(sample.state, sample.atmosphere);
+		this.bake(true);
+
+		if (sample.finished) {
+			Object.assign(this.controls, sample.atmosphere);
+			this.syncControlsFromState(sample.state);
+		}
+	}
+
+	/** Lights and fog follow the clock every frame; the bake waits for the sun to move past the threshold. */
+	private updateCycle() {
+		const hours = this.clock.getHours();
+		const state = cycleStateAt(hours);
+		const atmosphere = cycleAtmosphereAt(hours);
+		this.toggle.setState(state, atmosphere);
+
+		if (this.bakedSunDirection.angleTo(this.sunDirection) < CYCLE_REBAKE_THRESHOLD_RAD) {
+			return;
+		}
+
+		this.bake(true);
+		this.controls.clockHour = hours;
+		Object.assign(this.controls, atmosphere);
+		this.syncControlsFromState(state);
+	}
+
+	private scrubClock(hours: number) {
+		this.clock.setHours(hours);
+		this.controls.clockSource = this.clock.getSource();
+
+		if (this.mode !== CYCLE_MODE) {
+			this.setMode(CYCLE_MODE, 0);
+			return;
+		}
+
+		this.refreshGUI();
+	}
+
+	private applyState(state: SkyTransitionState, atmosphere: SkyAtmosphereSettings) {
 		const sunDirection = state.sunDirection.clone().normalize();
+		this.sunDirection.copy(sunDirection);
 		this.atmosphere.setSunDirection(sunDirection);
+		this.atmosphere.setSettings({
+			...atmosphere,
+			cloudCoverage: Math.max(atmosphere.cloudCoverage, this.weather.cloudCoverage),
+		});
+
+		const moonDirection = this.atmosphere.getMoonDirection();
+		this.moonLight.position.copy(moonDirection).multiplyScalar(120);
+		this.moonLight.intensity = this.atmosphere.isNightLayerEnabled()
+			? MOON_LIGHT_INTENSITY *
+				atmosphere.nightLayerOpacity *
+				moonIllumination(atmosphere.moonPhase) *
+				THREE.MathUtils.smoothstep(moonDirection.y, -0.02, 0.08)
+			: 0;
 
 		this.directionalLight.position.copy(sunDirection).multiplyScalar(120);
-		this.directionalLight.intensity = state.directionalLightIntensity;
+		this.directionalLight.intensity = state.directionalLightIntensity * this.weather.sunLightScale;
 		this.directionalLight.color.copy(state.directionalLightColor);
 
 		this.ambientLight.intensity = state.ambientLightIntensity;
 		this.ambientLight.color.copy(state.ambientLightColor);
 
-		this.renderer.toneMappingExposure = state.exposure;
+		this.renderer.toneMappingExposure = state.exposure * this.weather.exposureScale;
 
 		if (this.scene.fog instanceof THREE.FogExp2) {
-			this.scene.fog.color.copy(state.fogColor);
-			this.scene.fog.density = state.fogDensity;
+			// Weather greys the fog without brightening it past the mode's own fog (night stays dark).
+			const weatherFog = this.weather.fogColor.clone();
+			const brightness = Math.min(1, luminanceOf(state.fogColor) / Math.max(luminanceOf(weatherFog), 1e-4));
+			weatherFog.multiplyScalar(brightness);
+			this.scene.fog.color.copy(state.fogColor).lerp(weatherFog, this.weather.fogColorMix);
+			this.scene.fog.density = state.fogDensity * this.weather.fogDensityScale;
 		}
 	}
 
 	private applyControls() {
-		const state = this.stateFromControls();
-		this.toggle.setState(state);
-		this.atmosphere.setSettings(this.atmosphereSettingsFromControls());
+		this.toggle.setState(this.stateFromControls(), this.atmosphereSettingsFromControls());
 		this.bake(true);
 	}
 
@@ -358,6 +937,16 @@ export class SkySystem {
 			twilightHighColor: this.controls.twilightHighColor,
 			twilightAmberColor: this.controls.twilightAmberColor,
 			twilightRoseColor: this.controls.twilightRoseColor,
+			nightLayerOpacity: this.controls.nightLayerOpacity,
+			starDensity: this.controls.starDensity,
+			starBrightness: this.controls.starBrightness,
+			moonPhase: this.controls.moonPhase,
+			moonAzimuth: this.controls.moonAzimuth,
+			moonElevation: this.controls.moonElevation,
+			cloudCoverage: this.controls.cloudCoverage,
+			cloudAltitude: this.controls.cloudAltitude,
+			cloudWindSpeed: this.controls.cloudWindSpeed,
+			cloudWindDirection: this.controls.cloudWindDirection,
 		};
 	}
 
@@ -365,8 +954,21 @@ export class SkySystem {
 		const sun = directionToAzimuthElevation(state.sunDirection);
 
 		return {
-			...DEFAULT_SKY_ATMOSPHERE_SETTINGS,
+			...DAY_ATMOSPHERE,
 			...sun,
+			mode: this.mode,
+			keyframe: "day",
+			keyframeName: "",
+			keyframeEasing: "easeInOutCubic",
+			keyframeDurationMs: DEFAULT_KEYFRAME_DURATION_MS,
+			loopTimeline: true,
+			insertKeyframe: () => this.insertKeyframe(),
+			moveKeyframeUp: () => this.moveKeyframe(-1),
+			moveKeyframeDown: () => this.moveKeyframe(1),
+			deleteKeyframe: () => this.deleteKeyframe(),
+			clockSource: this.clock.getSource(),
+			clockSpeed: DEFAULT_SKY_CLOCK_SPEED,
+			clockHour: this.clock.getHours(),
 			exposure: state.exposure,
 			directionalLightIntensity: state.directionalLightIntensity,
 			directionalLightColor: colorToHex(state.directionalLightColor),
@@ -374,8 +976,17 @@ export class SkySystem {
 			ambientLightColor: colorToHex(state.ambientLightColor),
 			fogDensity: state.fogDensity,
 			fogColor: colorToHex(state.fogColor),
+			nightLayerEnabled: true,
+			libraryPreset: "",
+			libraryName: "",
+			jsonStatus: "",
 			toggleDayNight: () => this.toggleMode(),
 			copyJSON: () => this.copyJSON(),
+			pasteJSON: () => this.pasteJSON(),
+			saveToLibrary: () => this.saveToLibrary(),
+			loadFromLibrary: () => this.loadFromLibrary(),
+			renameInLibrary: () => this.renameInLibrary(),
+			deleteFromLibrary: () => this.deleteFromLibrary(),
 		};
 	}
 
@@ -406,6 +1017,28 @@ export class SkySystem {
 		return controller;
 	}
 
+	private addOptionController<T extends string>(
+		folder: dat.GUI,
+		object: SkyControlValues,
+		property: keyof SkyControlValues,
+		options: T[]
+	) {
+		const controller = folder.add(object as any, property as string, options);
+		this.guiControllers.push(controller);
+		return controller;
+	}
+
+	/** Text fields and checkboxes: dat.GUI infers the widget from the value type. */
+	private addValueController(
+		folder: dat.GUI,
+		object: SkyControlValues,
+		property: keyof SkyControlValues
+	) {
+		const controller = folder.add(object as any, property as string);
+		this.guiControllers.push(controller);
+		return controller;
+	}
+
 	private addColorController(
 		folder: dat.GUI,
 		object: SkyControlValues,
@@ -422,14 +1055,12 @@ export class SkySystem {
 		}
 	}
 
-	private getControlJSON() {
-		const state = this.stateFromControls();
+	private presetFromControls(): SkyPreset {
 		return {
-			mode: this.mode,
+			version: SKY_PRESET_VERSION,
 			sun: {
 				azimuth: this.controls.sunAzimuth,
 				elevation: this.controls.sunElevation,
-				direction: state.sunDirection.toArray(),
 			},
 			atmosphere: this.atmosphereSettingsFromControls(),
 			lighting: {
@@ -446,6 +1077,101 @@ export class SkySystem {
 		};
 	}
 
+	/** Exported JSON is a `SkyPreset` plus read-only context (mode, clock, sun vector) that imports ignore. */
+	private getControlJSON() {
+		const preset = this.presetFromControls();
+		return {
+			...preset,
+			mode: this.mode,
+			clock: {
+				source: this.clock.getSource(),
+				speed: this.clock.getSpeed(),
+				hours: this.clock.getHours(),
+			},
+			sun: {
+				...preset.sun,
+				direction: this.stateFromControls().sunDirection.toArray(),
+			},
+		};
+	}
+
+	private async pasteJSON() {
+		let json: string | null;
+		try {
+			json = await navigator.clipboard.readText();
+		} catch {
+			json = window.prompt("Paste sky JSON");
+		}
+		if (json) {
+			this.importJSON(json);
+		}
+	}
+
+	/** Dropping a `.json` file anywhere on the page imports it as a sky preset. */
+	private setupDropImport() {
+		const jsonFileFrom = (event: DragEvent) =>
+			Array.from(event.dataTransfer?.files ?? []).find(
+				(file) => file.type === "application/json" || file.name.toLowerCase().endsWith(".json")
+			);
+
+		window.addEventListener("dragover", (event) => {
+			if (event.dataTransfer?.types.includes("Files")) {
+				event.preventDefault();
+			}
+		});
+		window.addEventListener("drop", (event) => {
+			const file = jsonFileFrom(event);
+			if (!file) return;
+
+			event.preventDefault();
+			void file
+				.text()
+				.then((json) => this.importJSON(json))
+				.catch(() => this.setJSONStatus(`Import failed: couldn't read ${file.name}`));
+		});
+	}
+
+	private libraryNames() {
+		return loadSkyLibrary().map((entry) => entry.name);
+	}
+
+	private refreshLibraryOptions(selected: string) {
+		this.controls.libraryPreset = selected;
+		this.libraryController = this.replaceOptions(this.libraryController, this.libraryNames())?.name(
+			"Saved Sky"
+		);
+		this.refreshGUI();
+	}
+
+	private saveToLibrary() {
+		const name = this.controls.libraryName.trim() || this.controls.libraryPreset;
+		if (!name) return;
+
+		saveSkyPreset(name, this.presetFromControls());
+		this.refreshLibraryOptions(name);
+	}
+
+	private loadFromLibrary() {
+		const entry = loadSkyLibrary().find((e) => e.name === this.controls.libraryPreset);
+		if (entry) {
+			this.applyPreset(entry.preset);
+		}
+	}
+
+	private renameInLibrary() {
+		const from = this.controls.libraryPreset;
+		const to = this.controls.libraryName.trim();
+		if (!from || !to) return;
+
+		const entries = renameSkyPreset(from, to);
+		this.refreshLibraryOptions(entries.some((e) => e.name === to) ? to : from);
+	}
+
+	private deleteFromLibrary() {
+		const entries = deleteSkyPreset(this.controls.libraryPreset);
+		this.refreshLibraryOptions(entries[0]?.name ?? "");
+	}
+
 	private async copyJSON() {
 		const json = JSON.stringify(this.getControlJSON(), null, 2);
 
@@ -463,6 +1189,12 @@ export class SkySystem {
 			document.body.removeChild(textArea);
 			console.log("Sky settings copied to clipboard", json);
 		}
+		this.setJSONStatus("Copied to clipboard");
+	}
+
+	private setJSONStatus(message: string) {
+		this.controls.jsonStatus = message;
+		this.refreshGUI();
 	}
 
 	private bake(updateEnvironment: boolean) {
@@ -473,6 +1205,7 @@ export class SkySystem {
 		this.renderer.xr.enabled = false;
 		this.renderer.shadowMap.autoUpdate = false;
 		this.cubeCamera.update(this.renderer, this.skyScene);
+		this.bakedSunDirection.copy(this.sunDirection);
 		this.renderer.shadowMap.autoUpdate = previousShadowAutoUpdate;
 		this.renderer.xr.enabled = previousXrEnabled;
 		this.renderer.setRenderTarget(previousRenderTarget);
@@ -1,4 +1,8 @@
 import * as THREE from "three";
+import {
+	interpolateAtmosphereSettings,
+	SkyAtmosphereSettings,
+} from "./SkyAtmosphere";
 
 export interface SkyTransitionState {
 	sunDirection: THREE.Vector3;
@@ -11,12 +15,41 @@ export interface SkyTransitionState {
 	exposure: number;
 }
 
-type UpdateCallback = (state: SkyTransitionState) => void;
+export type SkyEasing = "linear" | "easeInCubic" | "easeOutCubic" | "easeInOutCubic";
+
+export const SKY_EASINGS: Record<SkyEasing, (t: number) => number> = {
+	linear: (t) => t,
+	easeInCubic: (t) => t * t * t,
+	easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+	easeInOutCubic: (t) =>
+		t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+};
+
+/** A named sky preset on the timeline; `durationMs` + `easing` describe the segment into the next keyframe. */
+export interface SkyKeyframe {
+	name: string;
+	state: SkyTransitionState;
+	atmosphere: SkyAtmosphereSettings;
+	durationMs: number;
+	easing: SkyEasing;
+}
+
+export interface SkyTimelineSample {
+	state: SkyTransitionState;
+	atmosphere: SkyAtmosphereSettings;
+	keyframeIndex: number;
+	finished: boolean;
+}
+
+type UpdateCallback = (
+	state: SkyTransitionState,
+	atmosphere: SkyAtmosphereSettings
+) => void;
 
 /** Default duration (ms) for day/night sky tween; shared with console UI theme transitions. */
 export const DEFAULT_SKY_TRANSITION_MS = 2200;
 
-const cloneState = (state: SkyTransitionState): SkyTransitionState => ({
+export const cloneState = (state: SkyTransitionState): SkyTransitionState => ({
 	sunDirection: state.sunDirection.clone().normalize(),
 	directionalLightIntensity: state.directionalLightIntensity,
 	directionalLightColor: state.directionalLightColor.clone(),
@@ -49,7 +82,7 @@ const slerpDirection = (
 		.normalize();
 };
 
-const interpolateState = (
+export const interpolateState = (
 	from: SkyTransitionState,
 	to: SkyTransitionState,
 	alpha: number
@@ -76,34 +109,152 @@ const interpolateState = (
 	exposure: THREE.MathUtils.lerp(from.exposure, to.exposure, alpha),
 });
 
+export const cloneKeyframe = (keyframe: SkyKeyframe): SkyKeyframe => ({
+	...keyframe,
+	state: cloneState(keyframe.state),
+	atmosphere: { ...keyframe.atmosphere },
+});
+
+/** Samples a keyframe list `elapsed` ms in; the last keyframe wraps to the first when `loop` is set. */
+export const sampleKeyframes = (
+	keyframes: SkyKeyframe[],
+	elapsed: number,
+	loop: boolean
+): SkyTimelineSample => {
+	const segmentCount = loop ? keyframes.length : keyframes.length - 1;
+
+	if (segmentCount <= 0) {
+		return {
+			state: cloneState(keyframes[0].state),
+			atmosphere: { ...keyframes[0].atmosphere },
+			keyframeIndex: 0,
+			finished: !loop,
+		};
+	}
+
+	let total = 0;
+	for (let i = 0; i < segmentCount; i++) {
+		total += Math.max(0, keyframes[i].durationMs);
+	}
+
+	const finished = !loop && elapsed >= total;
+	let remaining = loop && total > 0 ? elapsed % total : Math.min(elapsed, total);
+
+	for (let i = 0; i < segmentCount; i++) {
+		const from = keyframes[i];
+		const duration = Math.max(0, from.durationMs);
+
+		if (remaining < duration || i === segmentCount - 1) {
+			const to = keyframes[(i + 1) % keyframes.length];
+			const progress = duration === 0 ? 1 : Math.min(remaining / duration, 1);
+			const alpha = SKY_EASINGS[from.easing](progress);
+
+			return {
+				state: interpolateState(from.state, to.state, alpha),
+				atmosphere: interpolateAtmosphereSettings(from.atmosphere, to.atmosphere, alpha),
+				keyframeIndex: i,
+				finished,
+			};
+		}
+
+		remaining -= duration;
+	}
+
+	return sampleKeyframes(keyframes, 0, loop);
+};
+
+/** Plays a keyframe list with per-segment easing; the clock starts on the first `update` after `play`. */
+export class SkyTimeline {
+	private keyframes: SkyKeyframe[] = [];
+	private loop = false;
+	private startTime: number | null = null;
+	private active = false;
+
+	public play(keyframes: SkyKeyframe[], loop: boolean) {
+		this.keyframes = keyframes;
+		this.loop = loop;
+		this.startTime = null;
+		this.active = keyframes.length > 0;
+	}
+
+	public stop() {
+		this.active = false;
+	}
+
+	public setLoop(loop: boolean) {
+		this.loop = loop;
+	}
+
+	public update(now = performance.now()): SkyTimelineSample | null {
+		if (!this.active || this.keyframes.length === 0) {
+			return null;
+		}
+
+		if (this.startTime === null) {
+			this.startTime = now;
+		}
+
+		const sample = sampleKeyframes(this.keyframes, now - this.startTime, this.loop);
+
+		if (sample.finished) {
+			this.active = false;
+		}
+
+		return sample;
+	}
+
+	public isActive() {
+		return this.active;
+	}
+}
+
+/** Tweens a `SkyTransitionState` and its `SkyAtmosphereSettings` together on the same progress. */
 export class SkyToggle {
 	private currentState: SkyTransitionState;
 	private fromState: SkyTransitionState;
 	private toState: SkyTransitionState;
+	private currentAtmosphere: SkyAtmosphereSettings;
+	private fromAtmosphere: SkyAtmosphereSettings;
+	private toAtmosphere: SkyAtmosphereSettings;
 	private startTime = 0;
 	private duration = 0;
 	private active = false;
 	private readonly onUpdate: UpdateCallback;
 	private readonly reduceMotion: boolean;
 
-	constructor(initialState: SkyTransitionState, onUpdate: UpdateCallback) {
+	constructor(
+		initialState: SkyTransitionState,
+		initialAtmosphere: SkyAtmosphereSettings,
+		onUpdate: UpdateCallback
+	) {
 		this.currentState = cloneState(initialState);
 		this.fromState = cloneState(initialState);
 		this.toState = cloneState(initialState);
+		this.currentAtmosphere = { ...initialAtmosphere };
+		this.fromAtmosphere = { ...initialAtmosphere };
+		this.toAtmosphere = { ...initialAtmosphere };
 		this.onUpdate = onUpdate;
 		this.reduceMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
 	}
 
-	public toggle(toState: SkyTransitionState, duration = DEFAULT_SKY_TRANSITION_MS) {
+	/** Omitting `toAtmosphere` keeps the current palette for the whole tween. */
+	public toggle(
+		toState: SkyTransitionState,
+		duration = DEFAULT_SKY_TRANSITION_MS,
+		toAtmosphere: SkyAtmosphereSettings = this.currentAtmosphere
+	) {
 		this.fromState = cloneState(this.currentState);
 		this.toState = cloneState(toState);
+		this.fromAtmosphere = { ...this.currentAtmosphere };
+		this.toAtmosphere = { ...toAtmosphere };
 		this.duration = this.reduceMotion ? 0 : duration;
 		this.startTime = performance.now();
 		this.active = this.duration > 0;
 
 		if (!this.active) {
 			this.currentState = cloneState(toState);
-			this.onUpdate(this.currentState);
+			this.currentAtmosphere = { ...toAtmosphere };
+			this.onUpdate(this.currentState, this.currentAtmosphere);
 		}
 	}
 
@@ -115,12 +266,18 @@ export class SkyToggle {
 		const elapsed = now - this.startTime;
 		const progress = this.duration === 0 ? 1 : Math.min(elapsed / this.duration, 1);
 		this.currentState = interpolateState(this.fromState, this.toState, progress);
-		this.onUpdate(this.currentState);
+		this.currentAtmosphere = interpolateAtmosphereSettings(
+			this.fromAtmosphere,
+			this.toAtmosphere,
+			progress
+		);
+		this.onUpdate(this.currentState, this.currentAtmosphere);
 
 		if (progress >= 1) {
 			this.active = false;
 			this.currentState = cloneState(this.toState);
-			this.onUpdate(this.currentState);
+			this.currentAtmosphere = { ...this.toAtmosphere };
+			this.onUpdate(this.currentState, this.currentAtmosphere);
 		}
 
 		return true;
@@ -130,12 +287,22 @@ export class SkyToggle {
 		return cloneState(this.currentState);
 	}
 
-	public setState(state: SkyTransitionState) {
+	public getAtmosphere() {
+		return { ...this.currentAtmosphere };
+	}
+
+	public setState(
+		state: SkyTransitionState,
+		atmosphere: SkyAtmosphereSettings = this.currentAtmosphere
+	) {
 		this.active = false;
 		this.currentState = cloneState(state);
 		this.fromState = cloneState(state);
 		this.toState = cloneState(state);
-		this.onUpdate(this.currentState);
+		this.currentAtmosphere = { ...atmosphere };
+		this.fromAtmosphere = { ...atmosphere };
+		this.toAtmosphere = { ...atmosphere };
+		this.onUpdate(this.currentState, this.currentAtmosphere);
 	}
 
 	public isActive() {
@@ -0,0 +1,175 @@
+import * as THREE from "three";
+import * as dat from "dat.gui";
+import { RainParticles } from "./RainParticles";
+import { CLEAR_SKY_WEATHER, SkySystem, SkyWeatherOverlay } from "./SkySystem";
+import { DEFAULT_SKY_TRANSITION_MS, SKY_EASINGS } from "./SkyToggle";
+import { WindField } from "./WindField";
+
+export type WeatherMode = "clear" | "overcast" | "rain" | "storm";
+
+export const WEATHER_MODES: WeatherMode[] = ["clear", "overcast", "rain", "storm"];
+
+interface WeatherState extends SkyWeatherOverlay {
+	/** 0–1 share of rain streaks drawn. */
+	rainIntensity: number;
+	/** `WindField` strength (1 = calm breeze). */
+	windStrength: number;
+	/** How far passing gust fronts push above `windStrength` (0 = steady wind). */
+	gustStrength: number;
+}
+
+const WEATHER_STATES: Record<WeatherMode, WeatherState> = {
+	clear: {
+		...CLEAR_SKY_WEATHER,
+		rainIntensity: 0,
+		windStrength: 1,
+		gustStrength: 0.15,
+	},
+	overcast: {
+		cloudCoverage: 0.85,
+		fogDensityScale: 1.6,
+		fogColor: new THREE.Color("#9aa3a8"),
+		fogColorMix: 0.6,
+		exposureScale: 0.75,
+		sunLightScale: 0.45,
+		rainIntensity: 0,
+		windStrength: 1.4,
+		gustStrength: 0.3,
+	},
+	rain: {
+		cloudCoverage: 0.95,
+		fogDensityScale: 2.2,
+		fogColor: new THREE.Color("#7d878d"),
+		fogColorMix: 0.75,
+		exposureScale: 0.6,
+		sunLightScale: 0.3,
+		rainIntensity: 0.7,
+		windStrength: 1.8,
+		gustStrength: 0.5,
+	},
+	storm: {
+		cloudCoverage: 1,
+		fogDensityScale: 2.8,
+		fogColor: new THREE.Color("#5d666c"),
+		fogColorMix: 0.85,
+		exposureScale: 0.45,
+		sunLightScale: 0.18,
+		rainIntensity: 1,
+		windStrength: 2.6,
+		gustStrength: 0.9,
+	},
+};
+
+/** Rain drift in world units per second at wind strength 1. */
+const RAIN_WIND_DRIFT = 1.5;
+
+const cloneWeatherState = (state: WeatherState): WeatherState => ({
+	...state,
+	fogColor: state.fogColor.clone(),
+});
+
+const interpolateWeatherState = (
+	from: WeatherState,
+	to: WeatherState,
+	alpha: number
+): WeatherState => ({
+	cloudCoverage: THREE.MathUtils.lerp(from.cloudCoverage, to.cloudCoverage, alpha),
+	fogDensityScale: THREE.MathUtils.lerp(from.fogDensityScale, to.fogDensityScale, alpha),
+	fogColor: from.fogColor.clone().lerp(to.fogColor, alpha),
+	fogColorMix: THREE.MathUtils.lerp(from.fogColorMix, to.fogColorMix, alpha),
+	exposureScale: THREE.MathUtils.lerp(from.exposureScale, to.exposureScale, alpha),
+	sunLightScale: THREE.MathUtils.lerp(from.sunLightScale, to.sunLightScale, alpha),
+	rainIntensity: THREE.MathUtils.lerp(from.rainIntensity, to.rainIntensity, alpha),
+	windStrength: THREE.MathUtils.lerp(from.windStrength, to.windStrength, alpha),
+	gustStrength: THREE.MathUtils.lerp(from.gustStrength, to.gustStrength, alpha),
+});
+
+/**
+ * Fog, exposure and cloud cover go through `SkySystem` as an overlay so weather composes with any
+ * sky mode; wind strength and gusts go to the shared `WindField`, which also steers the rain. Mode changes tween like sky modes do.
+ */
+export class WeatherSystem {
+	private readonly sky: SkySystem;
+	private readonly wind: WindField;
+	private readonly camera: THREE.Camera;
+	private readonly rain = new RainParticles();
+	private readonly rainWind = new THREE.Vector2();
+	private readonly reduceMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+	private mode: WeatherMode = "clear";
+	private current = cloneWeatherState(WEATHER_STATES.clear);
+	private from = cloneWeatherState(WEATHER_STATES.clear);
+	private to = cloneWeatherState(WEATHER_STATES.clear);
+	private startTime = 0;
+	private duration = 0;
+	private isTweening = false;
+	private controls = { mode: "clear" as WeatherMode };
+	private modeController?: dat.GUIController;
+
+	constructor(scene: THREE.Scene, camera: THREE.Camera, sky: SkySystem, wind: WindField) {
+		this.camera = camera;
+		this.sky = sky;
+		this.wind = wind;
+		scene.add(this.rain.mesh);
+	}
+
+	public getMode(): WeatherMode {
+		return this.mode;
+	}
+
+	public setMode(mode: WeatherMode, durationMs = DEFAULT_SKY_TRANSITION_MS) {
+		this.mode = mode;
+		this.controls.mode = mode;
+		this.modeController?.updateDisplay();
+
+		this.from = cloneWeatherState(this.current);
+		this.to = cloneWeatherState(WEATHER_STATES[mode]);
+		this.startTime = performance.now();
+		this.duration = this.reduceMotion ? 0 : durationMs;
+		this.isTweening = true;
+	}
+
+	/** Clear → overcast → rain → storm → clear (keyboard `W`). */
+	public cycleMode() {
+		const index = WEATHER_MODES.indexOf(this.mode);
+		this.setMode(WEATHER_MODES[(index + 1) % WEATHER_MODES.length]);
+	}
+
+	/** `elapsedSeconds` is the scene clock shared with the grass shader. */
+	public update(elapsedSeconds: number) {
+		if (this.isTweening) {
+			const progress =
+				this.duration <= 0
+					? 1
+					: Math.min((performance.now() - this.startTime) / this.duration, 1);
+			this.current = interpolateWeatherState(
+				this.from,
+				this.to,
+				SKY_EASINGS.easeInOutCubic(progress)
+			);
+			this.sky.setWeatherOverlay(this.current);
+			this.rain.setIntensity(this.current.rainIntensity);
+			this.wind.setStrength(this.current.windStrength);
+			this.wind.setGustStrength(this.current.gustStrength);
+			this.isTweening = progress < 1;
+		}
+
+		this.wind
+			.sample(this.camera.position.x, this.camera.position.z, this.rainWind)
+			.multiplyScalar(RAIN_WIND_DRIFT);
+		this.rain.setWind(this.rainWind.x, this.rainWind.y);
+		this.rain.update(elapsedSeconds, this.camera.position);
+	}
+
+	public setupGUI(gui: dat.GUI) {
+		const folder = gui.addFolder("Weather");
+		this.modeController = folder
+			.add(this.controls, "mode", WEATHER_MODES)
+			.name("Weather")
+			.onChange((mode: WeatherMode) => this.setMode(mode));
+	}
+
+	public dispose() {
+		this.rain.mesh.removeFromParent();
+		this.rain.dispose();
+	}
+}
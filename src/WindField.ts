@@ -0,0 +1,95 @@
+import { GUI } from "dat.gui";
+import * as THREE from "three";
+
+/**
+ * GLSL twin of `WindField.gustAt`. Needs the uniforms from `WindField.uniforms`;
+ * keep the two in sync so CPU samplers see the same fronts the grass shows.
+ */
+export const WIND_FIELD_GLSL = `
+      uniform vec2 uWindDirection;
+      uniform float uWindStrength;
+      uniform float uGustStrength;
+      uniform float uGustWavelength;
+      uniform float uGustSpeed;
+
+      float windGust(vec2 worldXZ, float time) {
+        vec2 direction = normalize(uWindDirection);
+        float phase = (dot(worldXZ, direction) - time * uGustSpeed) / uGustWavelength * 6.28318530718;
+        float front = pow(0.5 + 0.5 * sin(phase), 3.0);
+        float lateral = 0.75 + 0.25 * sin(dot(worldXZ, vec2(-direction.y, direction.x)) * 0.15 + time * 0.3);
+        return front * lateral;
+      }
+`;
+
+/**
+ * Shared wind: a prevailing direction and strength plus gust fronts that travel downwind
+ * across the island. The grass samples it on the GPU; anything else calls `sample`.
+ */
+export class WindField {
+	readonly uniforms = {
+		uWindDirection: { value: new THREE.Vector2(1, 1).normalize() },
+		uWindStrength: { value: 1 },
+		uGustStrength: { value: 0.15 },
+		/** Distance between gust fronts, world units. */
+		uGustWavelength: { value: 24 },
+		/** Speed the fronts travel downwind, world units per second. */
+		uGustSpeed: { value: 8 },
+	};
+
+	private time = 0;
+	private guiProps = { directionDeg: 45 };
+
+	/** `seconds` must be the same clock the grass shader's `uTime` runs on. */
+	update(seconds: number) {
+		this.time = seconds;
+	}
+
+	/** Compass angle in degrees: 0 blows along +x, 90 along +z. */
+	setDirection(degrees: number) {
+		const radians = THREE.MathUtils.degToRad(degrees);
+		this.guiProps.directionDeg = degrees;
+		this.uniforms.uWindDirection.value.set(Math.cos(radians), Math.sin(radians));
+	}
+
+	setStrength(strength: number) {
+		this.uniforms.uWindStrength.value = strength;
+	}
+
+	setGustStrength(strength: number) {
+		this.uniforms.uGustStrength.value = strength;
+	}
+
+	/** 0–1 gust front intensity at a world position. */
+	gustAt(x: number, z: number, time = this.time) {
+		const direction = this.uniforms.uWindDirection.value;
+		const phase =
+			((x * direction.x + z * direction.y - time * this.uniforms.uGustSpeed.value) /
+				this.uniforms.uGustWavelength.value) *
+			Math.PI *
+			2;
+		const front = Math.pow(0.5 + 0.5 * Math.sin(phase), 3);
+		const lateral = 0.75 + 0.25 * Math.sin((-x * direction.y + z * direction.x) * 0.15 + time * 0.3);
+		return front * lateral;
+	}
+
+	/** Wind vector (x, z) at a world position: direction × strength, boosted by passing gusts. */
+	sample(x: number, z: number, target = new THREE.Vector2()) {
+		const strength =
+			this.uniforms.uWindStrength.value *
+			(1 + this.uniforms.uGustStrength.value * this.gustAt(x, z));
+		return target.copy(this.uniforms.uWindDirection.value).multiplyScalar(strength);
+	}
+
+	setupGUI(gui: GUI) {
+		const folder = gui.addFolder("Wind Field");
+		folder
+			.add(this.guiProps, "directionDeg", 0, 360, 1)
+			.name("Direction")
+			.onChange((value: number) => this.setDirection(value));
+		// Weather tweens strength and gusts, so these follow along.
+		folder.add(this.uniforms.uWindStrength, "value", 0, 4, 0.01).name("Strength").listen();
+		folder.add(this.uniforms.uGustStrength, "value", 0, 2, 0.01).name("Gust Strength").listen();
+		folder.add(this.uniforms.uGustWavelength, "value", 4, 80, 0.5).name("Gust Wavelength");
+		folder.add(this.uniforms.uGustSpeed, "value", 0, 30, 0.1).name("Gust Speed");
+	}
+}
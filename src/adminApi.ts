@@ -0,0 +1,68 @@
+/** Client for the admin review endpoints (`api/admin/submissions.ts`). */
+
+import type { ReviewRequest, Submission, SubmissionStatus } from "./moderationApi";
+
+const ENDPOINT = "/api/admin/submissions";
+const TOKEN_KEY = "fg-admin-token";
+
+/** Thrown for any non-2xx answer; `status` 401 means the stored token is wrong. */
+export class AdminApiError extends Error {
+	readonly status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "AdminApiError";
+		this.status = status;
+	}
+}
+
+/** Kept for the tab only, so a shared machine doesn't stay signed in. */
+export function getAdminToken(): string {
+	try {
+		return sessionStorage.getItem(TOKEN_KEY) ?? "";
+	} catch {
+		return "";
+	}
+}
+
+export function setAdminToken(token: string) {
+	try {
+		if (token) sessionStorage.setItem(TOKEN_KEY, token);
+		else sessionStorage.removeItem(TOKEN_KEY);
+	} catch {
+		// Private mode: the token lives only in the panel's state.
+	}
+}
+
+async function request<T>(
+	token: string,
+	{ query = "", ...init }: RequestInit & { query?: string } = {}
+): Promise<T> {
+	const res = await fetch(`${ENDPOINT}${query}`, {
+		...init,
+		headers: {
+			Authorization: `Bearer ${token}`,
+			"Content-Type": "application/json",
+		},
+	});
+	const body = (await res.json().catch(() => ({}))) as T & { error?: string };
+	if (!res.ok) {
+		throw new AdminApiError(res.status, body.error ?? `Request failed (${res.status})`);
+	}
+	return body;
+}
+
+export async function fetchSubmissions(token: string, status: SubmissionStatus): Promise<Submission[]> {
+	const body = await request<{ submissions: Submission[] }>(token, {
+		query: `?status=${encodeURIComponent(status)}`,
+	});
+	return body.submissions;
+}
+
+export async function reviewSubmission(token: string, review: ReviewRequest): Promise<Submission> {
+	const body = await request<{ submission: Submission }>(token, {
+		method: "POST",
+		body: JSON.stringify(review),
+	});
+	return body.submission;
+}
@@ -0,0 +1,139 @@
+/** Saved inspirations shelf: persists in localStorage, syncs across tabs, exports as Markdown or JSON. */
+
+import type { LinkData } from "./links";
+import { normalizeOrbHref } from "./orbHref";
+
+const STORAGE_KEY = "fg-favorites";
+
+export interface FavoriteLink extends Pick<LinkData, "title" | "url" | "tags" | "note" | "handle"> {
+    /** ISO timestamp. */
+    savedAt: string;
+}
+
+type Listener = (favorites: FavoriteLink[]) => void;
+
+let favorites: FavoriteLink[] = [];
+const listeners = new Set<Listener>();
+
+function parseFavorites(raw: string | null): FavoriteLink[] {
+    if (!raw) {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(raw) as unknown;
+        if (!Array.isArray(parsed)) {
+            return [];
+        }
+        return parsed.filter(
+            (item): item is FavoriteLink =>
+                typeof item?.title === "string" &&
+                typeof item?.url === "string" &&
+                typeof item?.savedAt === "string"
+        );
+    } catch {
+        return [];
+    }
+}
+
+function load(): void {
+    try {
+        favorites = parseFavorites(localStorage.getItem(STORAGE_KEY));
+    } catch {
+        favorites = [];
+    }
+}
+
+load();
+
+function emit(): void {
+    for (const listener of listeners) {
+        listener(favorites);
+    }
+}
+
+function persist(): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+    } catch {
+        // Private mode / quota: the shelf still works for this page.
+    }
+    emit();
+}
+
+// Another tab saved or removed something
+window.addEventListener("storage", (event) => {
+    if (event.key === STORAGE_KEY) {
+        favorites = parseFavorites(event.newValue);
+        emit();
+    }
+});
+
+/** Newest first. */
+export function getFavorites(): FavoriteLink[] {
+    return favorites;
+}
+
+export function isFavorite(url: string): boolean {
+    const normalized = normalizeOrbHref(url);
+    return favorites.some((item) => normalizeOrbHref(item.url) === normalized);
+}
+
+export function addFavorite(link: LinkData): void {
+    if (isFavorite(link.url)) {
+        return;
+    }
+    const item: FavoriteLink = { title: link.title, url: link.url, savedAt: new Date().toISOString() };
+    if (link.tags?.length) {
+        item.tags = link.tags;
+    }
+    if (link.note) {
+        item.note = link.note;
+    }
+    if (link.handle) {
+        item.handle = link.handle;
+    }
+    favorites = [item, ...favorites];
+    persist();
+}
+
+export function removeFavorite(url: string): void {
+    const normalized = normalizeOrbHref(url);
+    favorites = favorites.filter((item) => normalizeOrbHref(item.url) !== normalized);
+    persist();
+}
+
+/** Returns whether the link is saved afterwards. */
+export function toggleFavorite(link: LinkData): boolean {
+    if (isFavorite(link.url)) {
+        removeFavorite(link.url);
+        return false;
+    }
+    addFavorite(link);
+    return true;
+}
+
+/** Called on every change, including ones from other tabs. Returns the unsubscribe. */
+export function subscribeFavorites(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+const escapeMarkdown = (text: string) => text.replace(/([\\[\]])/g, "\\$1");
+
+export function favoritesToMarkdown(items: FavoriteLink[] = favorites): string {
+    const lines = items.map((item) => {
+        let line = `- [${escapeMarkdown(item.title)}](${item.url.replace(/\)/g, "%29")})`;
+        if (item.handle) {
+            line += ` via @${item.handle}`;
+        }
+        if (item.note) {
+            line += ` — ${item.note.replace(/\s+/g, " ")}`;
+        }
+        return line;
+    });
+    return `# Saved inspirations\n\n${lines.join("\n")}\n`;
+}
+
+export function favoritesToJson(items: FavoriteLink[] = favorites): string {
+    return `${JSON.stringify(items, null, 2)}\n`;
+}
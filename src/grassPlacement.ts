@@ -0,0 +1,76 @@
+/** Hands grass placement (`grassPlacementCore.ts`) to `grassPlacement.worker.ts`, off the main thread. */
+
+import * as THREE from "three";
+import {
+	GrassDensityMap,
+	GrassPlacementInput,
+	GrassPlacementResult,
+	placeGrass,
+} from "./grassPlacementCore";
+
+export type { GrassDensityMap, GrassPlacementInput, GrassPlacementResult } from "./grassPlacementCore";
+
+/** Copies through the accessors so normalized / interleaved glTF attributes arrive as plain floats. */
+export function grassPlacementInputFromGeometry(
+	geometry: THREE.BufferGeometry,
+	count: number,
+	densityMap?: GrassDensityMap | null
+): GrassPlacementInput {
+	const position = geometry.getAttribute("position");
+	const normal = geometry.getAttribute("normal");
+	const color = geometry.getAttribute("color");
+
+	const positions = new Float32Array(position.count * 3);
+	const normals = normal ? new Float32Array(normal.count * 3) : null;
+	const weights = color ? new Float32Array(color.count) : null;
+	for (let i = 0; i < position.count; i++) {
+		positions.set([position.getX(i), position.getY(i), position.getZ(i)], i * 3);
+		normals?.set([normal.getX(i), normal.getY(i), normal.getZ(i)], i * 3);
+		if (weights) weights[i] = color.getX(i);
+	}
+
+	const index = geometry.getIndex();
+	const indices = index ? Uint32Array.from({ length: index.count }, (_, i) => index.getX(i)) : null;
+
+	return { positions, normals, weights, indices, count, densityMap };
+}
+
+interface PendingPlacement {
+	input: GrassPlacementInput;
+	resolve: (result: GrassPlacementResult) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingPlacement>();
+
+/** Places on the shared worker; falls back to the main thread if workers are unavailable or crash. */
+export function requestGrassPlacement(input: GrassPlacementInput): Promise<GrassPlacementResult> {
+	if (typeof Worker === "undefined") {
+		return Promise.resolve(placeGrass(input));
+	}
+
+	if (!worker) {
+		worker = new Worker(new URL("./grassPlacement.worker.ts", import.meta.url), { type: "module" });
+		worker.onmessage = (event: MessageEvent<{ id: number; result: GrassPlacementResult }>) => {
+			const request = pending.get(event.data.id);
+			pending.delete(event.data.id);
+			request?.resolve(event.data.result);
+		};
+		worker.onerror = (event) => {
+			console.warn("[grass] Placement worker failed, placing on the main thread", event.message);
+			worker?.terminate();
+			worker = null;
+			for (const request of pending.values()) {
+				request.resolve(placeGrass(request.input));
+			}
+			pending.clear();
+		};
+	}
+
+	const id = nextRequestId++;
+	return new Promise((resolve) => {
+		pending.set(id, { input, resolve });
+		worker!.postMessage({ id, input });
+	});
+}
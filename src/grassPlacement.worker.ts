@@ -0,0 +1,6 @@
+import { GrassPlacementInput, placeGrass } from "./grassPlacementCore";
+
+self.onmessage = (event: MessageEvent<{ id: number; input: GrassPlacementInput }>) => {
+	const result = placeGrass(event.data.input);
+	self.postMessage({ id: event.data.id, result }, { transfer: [result.matrices.buffer] });
+};
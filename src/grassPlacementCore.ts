@@ -0,0 +1,143 @@
+/**
+ * Grass blade placement over the terrain. Kept free of worker code so `grassPlacement.worker.ts` can
+ * import it without bundling itself; the main thread goes through `requestGrassPlacement`.
+ */
+
+import * as THREE from "three";
+
+/** Single-channel 0–255 mask over a square centred on the world origin (same mapping as `GrassTrail`). */
+export interface GrassDensityMap {
+	data: Uint8Array;
+	width: number;
+	height: number;
+	worldSize: number;
+}
+
+export interface GrassPlacementInput {
+	/** xyz per vertex, already in the space blades are placed in. */
+	positions: Float32Array;
+	normals: Float32Array | null;
+	/** Per-vertex placement weight (the terrain's `color` red channel). */
+	weights: Float32Array | null;
+	indices: Uint32Array | null;
+	count: number;
+	densityMap?: GrassDensityMap | null;
+}
+
+export interface GrassPlacementResult {
+	/** Column-major 4×4 per blade, ready to be an `instanceMatrix`. In random order. */
+	matrices: Float32Array;
+	count: number;
+}
+
+/** Rejection sampling against the density map gives up after this many tries per blade. */
+const MAX_ATTEMPTS_PER_BLADE = 8;
+
+const sampleDensity = (map: GrassDensityMap, x: number, z: number) => {
+	const u = x / map.worldSize + 0.5;
+	const v = z / map.worldSize + 0.5;
+	if (u < 0 || u >= 1 || v < 0 || v >= 1) {
+		return 1;
+	}
+	const column = Math.floor(u * map.width);
+	const row = Math.floor(v * map.height);
+	return map.data[row * map.width + column] / 255;
+};
+
+/** Same distribution as `MeshSurfaceSampler` with `setWeightAttribute("color")`, thinned by the density map. */
+export function placeGrass(input: GrassPlacementInput): GrassPlacementResult {
+	const { positions, normals, weights, indices, densityMap } = input;
+	const faceCount = (indices ? indices.length : positions.length / 3) / 3;
+	const vertexIndex = (face: number, corner: number) =>
+		indices ? indices[face * 3 + corner] : face * 3 + corner;
+
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const c = new THREE.Vector3();
+	const triangle = new THREE.Triangle(a, b, c);
+
+	const cumulative = new Float32Array(faceCount);
+	let total = 0;
+	for (let face = 0; face < faceCount; face++) {
+		const i0 = vertexIndex(face, 0);
+		const i1 = vertexIndex(face, 1);
+		const i2 = vertexIndex(face, 2);
+		a.fromArray(positions, i0 * 3);
+		b.fromArray(positions, i1 * 3);
+		c.fromArray(positions, i2 * 3);
+
+		const weight = weights ? weights[i0] + weights[i1] + weights[i2] : 1;
+		total += weight * triangle.getArea();
+		cumulative[face] = total;
+	}
+
+	const matrices = new Float32Array(input.count * 16);
+	if (total <= 0) {
+		return { matrices, count: 0 };
+	}
+
+	const position = new THREE.Vector3();
+	const normal = new THREE.Vector3();
+	const na = new THREE.Vector3();
+	const nb = new THREE.Vector3();
+	const nc = new THREE.Vector3();
+	const yAxis = new THREE.Vector3(0, 1, 0);
+	const quaternion = new THREE.Quaternion();
+	const spin = new THREE.Quaternion();
+	const scale = new THREE.Vector3(1, 1, 1);
+	const matrix = new THREE.Matrix4();
+
+	let placed = 0;
+	const maxAttempts = input.count * MAX_ATTEMPTS_PER_BLADE;
+	for (let attempt = 0; attempt < maxAttempts && placed < input.count; attempt++) {
+		// Binary search for the face whose cumulative weight covers the random target.
+		const target = Math.random() * total;
+		let low = 0;
+		let high = faceCount - 1;
+		while (low < high) {
+			const mid = (low + high) >> 1;
+			if (cumulative[mid] < target) low = mid + 1;
+			else high = mid;
+		}
+
+		let u = Math.random();
+		let v = Math.random();
+		if (u + v > 1) {
+			u = 1 - u;
+			v = 1 - v;
+		}
+		const w = 1 - u - v;
+
+		const i0 = vertexIndex(low, 0);
+		const i1 = vertexIndex(low, 1);
+		const i2 = vertexIndex(low, 2);
+		a.fromArray(positions, i0 * 3);
+		b.fromArray(positions, i1 * 3);
+		c.fromArray(positions, i2 * 3);
+		position.set(0, 0, 0).addScaledVector(a, u).addScaledVector(b, v).addScaledVector(c, w);
+
+		if (densityMap && Math.random() >= sampleDensity(densityMap, position.x, position.z)) {
+			continue;
+		}
+
+		if (normals) {
+			na.fromArray(normals, i0 * 3);
+			nb.fromArray(normals, i1 * 3);
+			nc.fromArray(normals, i2 * 3);
+			normal.set(0, 0, 0).addScaledVector(na, u).addScaledVector(nb, v).addScaledVector(nc, w).normalize();
+		} else {
+			triangle.getNormal(normal);
+		}
+
+		// Align with the surface normal, then spin randomly around the blade's own y axis.
+		quaternion.setFromUnitVectors(yAxis, normal);
+		spin.setFromAxisAngle(yAxis, Math.random() * Math.PI * 2);
+		quaternion.multiply(spin);
+
+		matrix.compose(position, quaternion, scale);
+		matrix.toArray(matrices, placed * 16);
+		placed++;
+	}
+
+	return { matrices, count: placed };
+}
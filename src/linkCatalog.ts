@@ -0,0 +1,51 @@
+/** Inspiration catalog from `GET /api/links`, with the bundled `inspirationLinks` until (or unless) it arrives. */
+
+import { inspirationLinks, LinkData } from "./links";
+
+const CATALOG_URL = "/api/links";
+
+let catalog: LinkData[] = inspirationLinks;
+let pending: Promise<LinkData[]> | null = null;
+
+function parseCatalog(payload: unknown): LinkData[] | null {
+    const links = (payload as { links?: unknown } | null)?.links;
+    if (!Array.isArray(links)) {
+        return null;
+    }
+    const parsed = links.filter(
+        (link): link is LinkData =>
+            typeof link?.title === "string" && typeof link?.url === "string"
+    );
+    return parsed.length > 0 ? parsed : null;
+}
+
+/** Current pool for orbs. Identity changes when the fetched catalog replaces the bundled one. */
+export function getInspirationLinks(): LinkData[] {
+    return catalog;
+}
+
+/**
+ * Fetches the catalog once per page load. The browser's HTTP cache revalidates it by ETag; offline,
+ * the service worker answers with the last copy it saw, and failing that the bundled list stays in use.
+ */
+export function loadInspirationCatalog(): Promise<LinkData[]> {
+    pending ??= fetch(CATALOG_URL, { headers: { Accept: "application/json" } })
+        .then((response) => {
+            if (!response.ok) {
+                throw new Error(`${CATALOG_URL} responded ${response.status}`);
+            }
+            return response.json();
+        })
+        .then((payload) => {
+            const links = parseCatalog(payload);
+            if (links) {
+                catalog = links;
+            }
+            return catalog;
+        })
+        .catch((error) => {
+            console.warn("[links] Using the bundled catalog", error);
+            return catalog;
+        });
+    return pending;
+}
@@ -0,0 +1,43 @@
+/** OpenGraph-style preview of a catalog link, unfurled server-side (`api/_unfurl.ts`) and cached with the entry. */
+
+export interface LinkPreview {
+    title?: string;
+    description?: string;
+    siteName?: string;
+    /** Absolute http(s) URLs. */
+    favicon?: string;
+    image?: string;
+}
+
+export const LINK_PREVIEW_FIELDS = ["title", "description", "siteName", "favicon", "image"] as const;
+
+/** Longest value kept per field; pages stuff whole paragraphs into og:description. */
+export const LINK_PREVIEW_MAX_LENGTH: Record<keyof LinkPreview, number> = {
+    title: 200,
+    description: 300,
+    siteName: 80,
+    favicon: 2048,
+    image: 2048,
+};
+
+const isHttpUrl = (value: string) => /^https?:\/\//i.test(value);
+
+/** Narrows stored or fetched JSON to the known fields; `undefined` when nothing usable is left. */
+export function parseLinkPreview(value: unknown): LinkPreview | undefined {
+    if (!value || typeof value !== "object") {
+        return undefined;
+    }
+    const preview: LinkPreview = {};
+    for (const field of LINK_PREVIEW_FIELDS) {
+        const raw = (value as Record<string, unknown>)[field];
+        if (typeof raw !== "string" || raw.trim() === "") {
+            continue;
+        }
+        const text = raw.trim().slice(0, LINK_PREVIEW_MAX_LENGTH[field]);
+        if ((field === "favicon" || field === "image") && !isHttpUrl(text)) {
+            continue;
+        }
+        preview[field] = text;
+    }
+    return Object.keys(preview).length > 0 ? preview : undefined;
+}
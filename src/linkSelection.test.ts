@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { LinkData } from "./links";
+import {
+    createRotationStrategy,
+    createSeededRandom,
+    createWeightedStrategy,
+    LinkSelectionStrategy,
+    RandomSource,
+    RotationHistory,
+    themeOfTheDay,
+} from "./linkSelection";
+import { LINK_TAGS } from "./linkTags";
+
+/** Two links per tag, so every theme has something to pick. */
+const pool: LinkData[] = LINK_TAGS.flatMap((tag) => [
+    { title: `${tag} one`, url: `https://example.com/${tag}/1`, tags: [tag] },
+    { title: `${tag} two`, url: `https://example.com/${tag}/2`, tags: [tag] },
+]);
+
+const memoryHistory = (visited: readonly string[] = []) => {
+    const clicked = new Set<string>();
+    const history: RotationHistory = {
+        isClicked: (url) => clicked.has(url),
+        allClicked: (urls) => urls.length > 0 && urls.every((url) => clicked.has(url)),
+        clearClicked: () => clicked.clear(),
+        hasVisited: (url) => visited.includes(url),
+    };
+    return { clicked, history };
+};
+
+const pickMany = (strategy: LinkSelectionStrategy, random: RandomSource, count: number) => {
+    const inUse = new Set<number>();
+    return Array.from({ length: count }, () => strategy.pick({ pool, inUse }, random));
+};
+
+describe("createSeededRandom", () => {
+    test("the same seed gives the same order of picks", () => {
+        const picks = (seed: string) =>
+            pickMany(createWeightedStrategy({}, memoryHistory().history), createSeededRandom(seed), 30);
+
+        assert.deepEqual(picks("grass"), picks("grass"));
+        assert.notDeepEqual(picks("grass"), picks("meadow"));
+    });
+});
+
+describe("createWeightedStrategy", () => {
+    test("only picks the theme of the day while it has links", () => {
+        const theme = themeOfTheDay(new Date(2026, 9, 19));
+        const strategy = createWeightedStrategy({ theme }, memoryHistory().history);
+
+        for (const index of pickMany(strategy, createSeededRandom("theme"), 50)) {
+            assert.deepEqual(pool[index].tags, [theme]);
+        }
+    });
+
+    test("tag weights skew the picks", () => {
+        const strategy = createWeightedStrategy({ tagWeights: { essay: 20 } }, memoryHistory().history);
+        const picks = pickMany(strategy, createSeededRandom("weights"), 1000);
+
+        // Essays hold 40 of 58 weight units.
+        const essays = picks.filter((index) => pool[index].tags?.includes("essay")).length;
+        assert.ok(essays > 600 && essays < 780, `${essays} essays in 1000 picks`);
+    });
+
+    test("prefers links that were never visited", () => {
+        const unseen = new Set(["https://example.com/talk/1", "https://example.com/craft/2"]);
+        const visited = pool.map((link) => link.url).filter((url) => !unseen.has(url));
+        const strategy = createWeightedStrategy({}, memoryHistory(visited).history);
+
+        for (const index of pickMany(strategy, createSeededRandom("unseen"), 50)) {
+            assert.ok(unseen.has(pool[index].url), pool[index].url);
+        }
+    });
+});
+
+describe("createRotationStrategy", () => {
+    test("doesn't repeat a link until the pool is exhausted", () => {
+        const { clicked, history } = memoryHistory();
+        const strategy = createRotationStrategy(history);
+        const random = createSeededRandom("rotation");
+        const inUse = new Set<number>();
+        const click = () => {
+            const index = strategy.pick({ pool, inUse }, random);
+            clicked.add(pool[index].url);
+            return index;
+        };
+
+        const firstCycle = pool.map(click);
+        assert.equal(new Set(firstCycle).size, pool.length);
+
+        click();
+        assert.equal(clicked.size, 1, "a new cycle starts once every link was clicked");
+    });
+});
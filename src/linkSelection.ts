@@ -0,0 +1,194 @@
+/**
+ * How `OrbSystem` picks the next link. Every strategy starts from the same rotation rules (no repeats
+ * on screen, skip what was clicked this session, prefer unseen links when visit history is on) and
+ * differs only in how it chooses among what's left. Randomness is injected so a seed makes picks repeatable.
+ */
+
+import type { LinkData } from "./links";
+import { LINK_TAGS, LinkTag } from "./linkTags";
+import {
+    allInspirationUrlsClickedThisSession,
+    clearOrbClickedSession,
+    isOrbUrlClickedThisSession,
+} from "./orbSessionClicks";
+import { hasVisited } from "./visitHistory";
+
+/** `[0, 1)`, like `Math.random`. */
+export type RandomSource = () => number;
+
+export interface LinkSelectionState {
+    pool: LinkData[];
+    /** Indices held by orbs right now. Rotation may clear it when nothing else is left. */
+    inUse: Set<number>;
+}
+
+export interface LinkSelectionStrategy {
+    readonly name: string;
+    /** Index into `state.pool`; the pool is never empty. */
+    pick(state: LinkSelectionState, random: RandomSource): number;
+}
+
+/** What rotation needs to know about this session's clicks and earlier visits. */
+export interface RotationHistory {
+    isClicked(url: string): boolean;
+    allClicked(urls: readonly string[]): boolean;
+    /** Starts a new cycle once everything was clicked. */
+    clearClicked(): void;
+    hasVisited(url: string): boolean;
+}
+
+/** `orbSessionClicks` and the opt-in visit history: what the scene uses. */
+export const browserRotationHistory: RotationHistory = {
+    isClicked: isOrbUrlClickedThisSession,
+    allClicked: allInspirationUrlsClickedThisSession,
+    clearClicked: clearOrbClickedSession,
+    hasVisited,
+};
+
+/**
+ * The candidates every strategy chooses from: not on screen and not clicked this session, with the
+ * session reset once everything has been clicked and the on-screen set recycled when both orbs hold
+ * the last links. Links from earlier visits only come back once every other one has been seen.
+ */
+export function rotationCandidates(
+    { pool, inUse }: LinkSelectionState,
+    history: RotationHistory = browserRotationHistory
+): number[] {
+    const poolUrls = pool.map((l) => l.url);
+
+    const buildAvailable = (): number[] => {
+        const out: number[] = [];
+        for (let i = 0; i < pool.length; i++) {
+            if (!inUse.has(i) && !history.isClicked(pool[i].url)) {
+                out.push(i);
+            }
+        }
+        return out;
+    };
+
+    let availableIndices = buildAvailable();
+
+    // Full cycle: every inspiration URL was opened this session — allow repeats only after that.
+    if (availableIndices.length === 0 && history.allClicked(poolUrls)) {
+        history.clearClicked();
+        availableIndices = buildAvailable();
+    }
+
+    // Same as before: no slot left only because both orbs hold links — recycle in-rotation indices.
+    if (availableIndices.length === 0) {
+        inUse.clear();
+        availableIndices = buildAvailable();
+    }
+
+    if (availableIndices.length === 0) {
+        history.clearClicked();
+        inUse.clear();
+        availableIndices = buildAvailable();
+    }
+    if (availableIndices.length === 0) {
+        for (let i = 0; i < pool.length; i++) {
+            availableIndices.push(i);
+        }
+    }
+
+    const unseenIndices = availableIndices.filter((i) => !history.hasVisited(pool[i].url));
+    return unseenIndices.length > 0 ? unseenIndices : availableIndices;
+}
+
+/** Uniform over `rotationCandidates`: the original behaviour, and the default. */
+export function createRotationStrategy(history: RotationHistory = browserRotationHistory): LinkSelectionStrategy {
+    return {
+        name: "rotation",
+        pick(state, random) {
+            const candidates = rotationCandidates(state, history);
+            return candidates[Math.floor(random() * candidates.length)];
+        },
+    };
+}
+
+export interface WeightedSelectionOptions {
+    /** Multiplier per tag; a link takes its highest. Missing tags count 1, 0 excludes (unless that leaves nothing). */
+    tagWeights?: Partial<Record<LinkTag, number>>;
+    /** For links without tags, which includes the whole bundled list. Default 1. */
+    untaggedWeight?: number;
+    /** Extra weight for a link approved just now, fading to none after `freshnessDays`. Default 0 (off). */
+    freshnessBoost?: number;
+    freshnessDays?: number;
+    /** Only links with this tag, while any are available; see `themeOfTheDay`. */
+    theme?: LinkTag | null;
+    now?: () => Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function linkWeight(link: LinkData, options: WeightedSelectionOptions, now: Date): number {
+    const { tagWeights = {}, untaggedWeight = 1, freshnessBoost = 0, freshnessDays = 14 } = options;
+
+    let weight = link.tags?.length
+        ? Math.max(...link.tags.map((tag) => tagWeights[tag] ?? 1))
+        : untaggedWeight;
+
+    if (freshnessBoost > 0 && link.addedAt) {
+        const ageDays = (now.getTime() - Date.parse(link.addedAt)) / DAY_MS;
+        if (ageDays >= 0 && ageDays < freshnessDays) {
+            weight *= 1 + freshnessBoost * (1 - ageDays / freshnessDays);
+        }
+    }
+    return Math.max(0, weight);
+}
+
+/** Tag weights, freshness and an optional theme on top of the rotation rules. */
+export function createWeightedStrategy(
+    options: WeightedSelectionOptions = {},
+    history: RotationHistory = browserRotationHistory
+): LinkSelectionStrategy {
+    return {
+        name: "weighted",
+        pick(state, random) {
+            let candidates = rotationCandidates(state, history);
+
+            if (options.theme) {
+                const themed = candidates.filter((i) => state.pool[i].tags?.includes(options.theme!));
+                if (themed.length > 0) {
+                    candidates = themed;
+                }
+            }
+
+            const now = options.now?.() ?? new Date();
+            const weights = candidates.map((i) => linkWeight(state.pool[i], options, now));
+            const total = weights.reduce((sum, weight) => sum + weight, 0);
+            if (total <= 0) {
+                return candidates[Math.floor(random() * candidates.length)];
+            }
+
+            let target = random() * total;
+            for (let i = 0; i < candidates.length; i++) {
+                target -= weights[i];
+                if (target < 0) {
+                    return candidates[i];
+                }
+            }
+            return candidates[candidates.length - 1];
+        },
+    };
+}
+
+/** Same tag for everyone on a given local calendar day, cycling through `LINK_TAGS`. */
+export function themeOfTheDay(date: Date = new Date()): LinkTag {
+    const day = Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+    return LINK_TAGS[day % LINK_TAGS.length];
+}
+
+/** Mulberry32 over a string hash: the same seed always yields the same sequence of picks. */
+export function createSeededRandom(seed: string | number): RandomSource {
+    let state = 0x811c9dc5;
+    for (const char of String(seed)) {
+        state = Math.imul(state ^ char.charCodeAt(0), 0x01000193);
+    }
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
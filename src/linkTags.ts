@@ -0,0 +1,43 @@
+/** Fixed tag taxonomy for catalog links; submissions and reviews may only use these. */
+
+export type LinkTag =
+    | "talk"
+    | "essay"
+    | "interaction"
+    | "motion"
+    | "typography"
+    | "visual"
+    | "tools"
+    | "process"
+    | "craft"
+    | "culture";
+
+export const LINK_TAGS: LinkTag[] = [
+    "talk",
+    "essay",
+    "interaction",
+    "motion",
+    "typography",
+    "visual",
+    "tools",
+    "process",
+    "craft",
+    "culture",
+];
+
+export const LINK_TAG_LABELS: Record<LinkTag, string> = {
+    talk: "Talk",
+    essay: "Essay",
+    interaction: "Interaction",
+    motion: "Motion",
+    typography: "Typography",
+    visual: "Visual",
+    tools: "Tools",
+    process: "Process",
+    craft: "Craft",
+    culture: "Culture",
+};
+
+export function isLinkTag(value: unknown): value is LinkTag {
+    return LINK_TAGS.includes(value as LinkTag);
+}
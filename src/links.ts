@@ -1,6 +1,19 @@
+import type { LinkPreview } from "./linkPreview";
+import type { LinkTag } from "./linkTags";
+
 export interface LinkData {
     title: string;
     url: string;
+    /** Catalog entries from approved submissions carry these; the bundled list doesn't. */
+    tags?: LinkTag[];
+    /** The submitter's "why it inspires you". */
+    note?: string;
+    /** Submitter's X handle, without the @. */
+    handle?: string;
+    /** Unfurled page metadata for the orb's hover card. */
+    preview?: LinkPreview;
+    /** ISO time the submission was approved into the catalog; bundled links have none. */
+    addedAt?: string;
 }
 
 export const inspirationLinks: LinkData[] = [
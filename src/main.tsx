@@ -1,25 +1,75 @@
 import * as THREE from "three";
 import Stats from "stats-gl";
 import { createRoot, type Root } from "react-dom/client";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { GLTF, GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 import * as dat from "dat.gui";
 
+import { AdminReviewPanel } from "./ui/AdminReviewPanel";
+import { OrbHoverCard } from "./ui/OrbHoverCard";
 import { ConsoleThemeToolbar } from "./ui/ConsoleThemeToolbar";
 import { SceneTransportBar } from "./ui/SceneTransportBar";
 
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import { MeshSurfaceSampler } from "three/addons/math/MeshSurfaceSampler.js";
+import { BootSequence, createSceneGLTFLoader } from "./BootSequence";
+import { GrassChunks } from "./GrassChunks";
 import { GrassMaterial } from "./GrassMaterial";
+import { GrassPainter } from "./GrassPainter";
+import { loadInspirationCatalog } from "./linkCatalog";
+import { grassPlacementInputFromGeometry, requestGrassPlacement } from "./grassPlacement";
+import {
+	getFavorites,
+	isFavorite,
+	removeFavorite,
+	subscribeFavorites,
+	toggleFavorite,
+} from "./favorites";
+import {
+	createRotationStrategy,
+	createSeededRandom,
+	createWeightedStrategy,
+	themeOfTheDay,
+} from "./linkSelection";
+import type { LinkData } from "./links";
+import { LINK_TAG_LABELS, LINK_TAGS, LinkTag } from "./linkTags";
 import { OrbSystem } from "./OrbSystem";
+import {
+	clearVisitHistory,
+	getVisit,
+	getVisitHistoryState,
+	loadVisitHistory,
+	setVisitHistoryEnabled,
+	subscribeVisitHistory,
+} from "./visitHistory";
+import { QualityManager } from "./QualityManager";
 import { SkySystem } from "./SkySystem";
+import {
+	EMPTY_SUBMIT_DETAILS,
+	SUBMIT_SESSION_HEADER,
+	SubmitDetails,
+	SubmitErrorCode,
+	SubmitPayload,
+	getSubmitSessionId,
+	isSubmitErrorCode,
+} from "./submitApi";
 import { DEFAULT_SKY_TRANSITION_MS } from "./SkyToggle";
+import { WeatherSystem } from "./WeatherSystem";
+import { WindField } from "./WindField";
 import { initScatterTextHero } from "./scatterTextHero";
+import { registerOfflineSupport } from "./offlineSupport";
+
+/** Upper bound of the density slider; the placement pool is sized for it. */
+const MAX_GRASS_DENSITY = 4;
+/** Density edits re-place the grass once painting pauses this long; the shader covers the gap. */
+const GRASS_REPLACE_DELAY_MS = 400;
+/** How long the orb hover card lingers after the pointer leaves the orb, so it can be reached. */
+const ORB_HOVER_CARD_GRACE_MS = 350;
 
 export class FluffyGrass {
 	// # Need access to these outside the comp
 	private loadingManager: THREE.LoadingManager;
 	private textureLoader: THREE.TextureLoader;
 	private gltfLoader: GLTFLoader;
+	private boot: BootSequence;
 
 	private camera: THREE.PerspectiveCamera;
 	private renderer: THREE.WebGLRenderer;
@@ -33,6 +83,8 @@ export class FluffyGrass {
 		fogColor: "#eeeeee",
 		terrainColor: "#5e875e",
 		fogDensity: 0.023934,
+		/** Multiplier on `grassCount`, up to `MAX_GRASS_DENSITY`; LOD chunks thin distant blades. */
+		grassDensity: 2,
 	};
 	private textures: { [key: string]: THREE.Texture } = {};
 
@@ -43,11 +95,33 @@ export class FluffyGrass {
 	private clock = new THREE.Clock();
 
 	private terrainMat: THREE.MeshPhongMaterial;
-	private grassGeometry = new THREE.BufferGeometry();
+	/** `grassLODs.glb` meshes, most detailed first. */
+	private grassLODs: THREE.BufferGeometry[] = [];
+	private grassPlacementRequest = 0;
+	private grassReplaceTimer: ReturnType<typeof setTimeout> | null = null;
+	private grassChunks?: GrassChunks;
 	private grassMaterial: GrassMaterial;
 	private grassCount = 8000;
 	private orbSystem: OrbSystem;
+	/** Orb link picking (`linkSelection.ts`); `?orbSeed=` makes a run's picks repeatable. */
+	private linkSelectionProps = {
+		strategy: "rotation" as "rotation" | "weighted",
+		freshnessBoost: 2,
+		/** "off", "today" (`themeOfTheDay`) or a `LinkTag`. */
+		theme: "off",
+		seed: new URLSearchParams(window.location.search).get("orbSeed") ?? "",
+	};
+	private linkTagWeights = Object.fromEntries(LINK_TAGS.map((tag) => [tag, 1])) as Record<LinkTag, number>;
+	private terrainMesh: THREE.Mesh | null = null;
+	private terrainRaycaster = new THREE.Raycaster();
+	/** Last pointer position over the canvas in NDC; `null` once it leaves. */
+	private grassPointer: THREE.Vector2 | null = null;
 	private skySystem: SkySystem;
+	private weatherSystem: WeatherSystem;
+	private windField = new WindField();
+	private qualityManager: QualityManager;
+	private grassDensityController?: dat.GUIController;
+	private grassPainter: GrassPainter;
 
 	private guiContainerEl: HTMLDivElement | null = null;
 	private readonly guiThemeStorageKey = "fg-console-theme";
@@ -64,6 +138,16 @@ export class FluffyGrass {
 	/** Independent of auto-rotate: only affects the rotate-mode background track. */
 	private musicMuted = false;
 	private transportReactRoot: Root | null = null;
+	private adminReviewRoot: Root | null = null;
+	private adminReviewOpen = false;
+	private orbHoverMount: HTMLDivElement | null = null;
+	private orbHoverRoot: Root | null = null;
+	/** Last hovered link, kept so the card can fade out with its content. */
+	private orbHoverLink: LinkData | null = null;
+	private orbHoverVisible = false;
+	/** The card stays up while the pointer is on it (for its heart) and briefly after the orb loses hover. */
+	private orbHoverCardPointerInside = false;
+	private orbHoverLastSeenAt = 0;
 	/** Opens the console toolbar URL row (same as top Plus / `A` shortcut). */
 	private expandConsoleUrlSubmitRow: (() => void) | null = null;
 	/** After orb opens an external link: resume play on tab return only if transport was playing before that pause. */
@@ -105,7 +189,8 @@ export class FluffyGrass {
 
 		this.gui = new dat.GUI();
 
-		this.gltfLoader = new GLTFLoader(this.loadingManager);
+		this.gltfLoader = createSceneGLTFLoader(this.loadingManager);
+		this.boot = new BootSequence(this.loadingManager);
 
 		this.canvas = _canvas;
 		// this.canvas.style.pointerEvents = 'all';
@@ -138,7 +223,6 @@ export class FluffyGrass {
 		this.renderer.outputColorSpace = THREE.SRGBColorSpace;
 		this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
 		this.renderer.setSize(window.innerWidth, window.innerHeight);
-		this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
 		this.scene.frustumCulled = true;
 		this.skySystem = new SkySystem(this.scene, this.renderer, this.camera);
 
@@ -151,10 +235,37 @@ export class FluffyGrass {
 		this.orbitControls.enableRotate = false;
 		this.orbitControls.enableZoom = false;
 
-		this.grassMaterial = new GrassMaterial();
+		this.grassMaterial = new GrassMaterial(undefined, this.windField);
+		this.weatherSystem = new WeatherSystem(
+			this.scene,
+			this.camera,
+			this.skySystem,
+			this.windField
+		);
+		// Owns pixel ratio, shadow map settings, grass density and orb point lights from here on.
+		this.qualityManager = new QualityManager({
+			renderer: this.renderer,
+			scene: this.scene,
+			shadowLight: this.skySystem.directionalLight,
+			grassMaterial: this.grassMaterial,
+			setGrassDensity: (density) => {
+				this.sceneProps.grassDensity = density;
+				this.grassDensityController?.updateDisplay();
+				this.applyGrassDensity();
+			},
+			setOrbLightsEnabled: (enabled) => this.orbSystem?.setPointLightsEnabled(enabled),
+		});
 		this.terrainMat = new THREE.MeshPhongMaterial({
 			color: this.sceneProps.terrainColor,
 		});
+		this.grassMaterial.masks.applyToTerrain(this.terrainMat);
+		this.grassMaterial.masks.setDensityChangeHandler(() => this.scheduleGrassReplacement());
+		this.grassPainter = new GrassPainter(
+			this.grassMaterial.masks,
+			this.camera,
+			this.canvas,
+			this.scene
+		);
 
 		this.init();
 	}
@@ -163,9 +274,8 @@ export class FluffyGrass {
 		this.setupTransportControls();
 		this.setupGUI();
 		this.setupStats();
-		this.setupTextures();
 		// this.createCube();
-		this.loadModels();
+		void this.boot.run(() => this.loadScene());
 		this.setupEventListeners();
 		document.addEventListener("visibilitychange", this.onDocumentVisibilityChange);
 	}
@@ -344,112 +454,124 @@ export class FluffyGrass {
 		this.scene.add(cube);
 	}
 
-	private addGrass(
-		surfaceMesh: THREE.Mesh,
-		grassGeometry: THREE.BufferGeometry
-	) {
-		// Create a sampler for a Mesh surface.
-		const sampler = new MeshSurfaceSampler(surfaceMesh)
-			.setWeightAttribute("color")
-			.build();
-
-		// Create a material for grass
-		const grassInstancedMesh = new THREE.InstancedMesh(
-			grassGeometry,
-			this.grassMaterial.material,
-			this.grassCount
-		);
-		grassInstancedMesh.receiveShadow = true;
-
-		const position = new THREE.Vector3();
-		const quaternion = new THREE.Quaternion();
-		const scale = new THREE.Vector3(1, 1, 1);
-
-		const normal = new THREE.Vector3();
-		const yAxis = new THREE.Vector3(0, 1, 0);
-		const matrix = new THREE.Matrix4();
-
-		// Sample randomly from the surface, creating an instance of the sample
-		// geometry at each sample point.
-		for (let i = 0; i < this.grassCount; i++) {
-			sampler.sample(position, normal);
-
-			// Align the instance with the surface normal
-			quaternion.setFromUnitVectors(yAxis, normal);
-			// Create a random rotation around the y-axis
-			const randomRotation = new THREE.Euler(0, Math.random() * Math.PI * 2, 0);
-			const randomQuaternion = new THREE.Quaternion().setFromEuler(
-				randomRotation
-			);
-
-			// Combine the alignment with the random rotation
-			quaternion.multiply(randomQuaternion);
-
-			// Set the new scale in the matrix
-			matrix.compose(position, quaternion, scale);
+	/**
+	 * Places the full `grassCount × MAX_GRASS_DENSITY` pool off the main thread; `grassDensity`
+	 * then only picks how much of it the chunks draw. Blades are thinned by the painted density mask,
+	 * re-placed shortly after it changes.
+	 */
+	private async placeGrass() {
+		if (!this.terrainMesh || this.grassLODs.length === 0) {
+			return;
+		}
 
-			grassInstancedMesh.setMatrixAt(i, matrix);
+		const requestId = ++this.grassPlacementRequest;
+		const densityMap = this.grassMaterial.masks.readDensity();
+		const result = await requestGrassPlacement(
+			grassPlacementInputFromGeometry(
+				this.terrainMesh.geometry,
+				Math.round(this.grassCount * MAX_GRASS_DENSITY),
+				densityMap
+			)
+		);
+		// A newer placement was requested while this one ran.
+		if (requestId !== this.grassPlacementRequest) {
+			return;
 		}
+		this.grassMaterial.masks.setPlacedDensity(densityMap);
 
-		this.scene.add(grassInstancedMesh);
+		if (!this.grassChunks) {
+			this.grassChunks = new GrassChunks(this.grassLODs, this.grassMaterial.material);
+			this.scene.add(this.grassChunks.group);
+		}
+		this.grassChunks.build(result.matrices, result.count);
+		this.applyGrassDensity();
 	}
 
-	private loadModels() {
-		this.sceneGUI
-			.addColor(this.sceneProps, "terrainColor")
-			.onChange((value) => {
-				this.terrainMat.color.set(value);
-			});
+	private scheduleGrassReplacement() {
+		if (this.grassReplaceTimer !== null) {
+			clearTimeout(this.grassReplaceTimer);
+		}
+		this.grassReplaceTimer = setTimeout(() => {
+			this.grassReplaceTimer = null;
+			void this.placeGrass();
+		}, GRASS_REPLACE_DELAY_MS);
+	}
 
-		const islandPromise = this.gltfLoader.loadAsync("/island.glb");
-		const grassPromise = this.gltfLoader.loadAsync("/grassLODs.glb");
-
-		void Promise.all([islandPromise, grassPromise])
-			.then(([islandGltf, grassGltf]) => {
-				let terrainMesh: THREE.Mesh | null = null;
-				islandGltf.scene.traverse((child) => {
-					if (child instanceof THREE.Mesh) {
-						child.material = this.terrainMat;
-						child.receiveShadow = true;
-						child.geometry.scale(3, 3, 3);
-						terrainMesh = child;
-					}
-				});
-				if (!terrainMesh) {
-					return;
-				}
-				this.scene.add(islandGltf.scene);
-
-				grassGltf.scene.traverse((child) => {
-					if (child instanceof THREE.Mesh) {
-						if (child.name.includes("LOD00")) {
-							child.geometry.scale(5, 5, 5);
-							this.grassGeometry = child.geometry;
-						}
-					}
-				});
+	private applyGrassDensity() {
+		this.grassChunks?.setDensity(this.sceneProps.grassDensity / MAX_GRASS_DENSITY);
+	}
 
-				this.addGrass(terrainMesh, this.grassGeometry);
-				
-				// Initialize orb system after terrain is loaded
-				this.orbSystem = new OrbSystem(
-					this.scene,
-					this.camera,
-					terrainMesh,
-					this.canvas,
-					() => this.pauseTransportForOrbExternalOpen()
-				);
-			}).catch((error) => {
-				console.error("Failed to load scene models", error);
-			});
+	/**
+	 * Everything the scene needs before it is built, so a failed asset leaves nothing half-added.
+	 * Resolves once the first grass placement is in, so the boot overlay never lifts over bare ground.
+	 */
+	private async loadScene() {
+		// Not awaited: orbs start on the bundled links and switch over when the catalog lands.
+		void loadInspirationCatalog();
+		void loadVisitHistory();
+		const [islandGltf, grassGltf, perlinNoise, grassAlpha] = await Promise.all([
+			this.gltfLoader.loadAsync("/island.glb"),
+			this.gltfLoader.loadAsync("/grassLODs.glb"),
+			this.textureLoader.loadAsync("/perlinnoise.webp"),
+			this.textureLoader.loadAsync("/grass.jpeg"),
+		]);
+		this.setupTextures(perlinNoise, grassAlpha);
+		await this.loadModels(islandGltf, grassGltf);
+	}
 
+	/** Resolves when the grass is placed; orbs are set up meanwhile. */
+	private loadModels(islandGltf: GLTF, grassGltf: GLTF): Promise<void> {
+		let terrainMesh: THREE.Mesh | null = null;
+		islandGltf.scene.traverse((child) => {
+			if (child instanceof THREE.Mesh) {
+				child.material = this.terrainMat;
+				child.receiveShadow = true;
+				child.geometry.scale(3, 3, 3);
+				terrainMesh = child;
+			}
+		});
+		if (!terrainMesh) {
+			throw new Error("island.glb has no terrain mesh");
+		}
+		this.scene.add(islandGltf.scene);
 
+		const lodMeshes: THREE.Mesh[] = [];
+		grassGltf.scene.traverse((child) => {
+			if (child instanceof THREE.Mesh && /LOD\d+/.test(child.name)) {
+				child.geometry.scale(5, 5, 5);
+				lodMeshes.push(child);
+			}
+		});
+		this.grassLODs = lodMeshes
+			.sort((a, b) => a.name.localeCompare(b.name))
+			.map((mesh) => mesh.geometry);
+		this.terrainMesh = terrainMesh;
+		this.grassPainter.setTerrain(terrainMesh);
+		const grassPlaced = this.placeGrass();
+
+		// Initialize orb system after terrain is loaded
+		this.orbSystem = new OrbSystem(
+			this.scene,
+			this.camera,
+			terrainMesh,
+			this.canvas,
+			() => this.pauseTransportForOrbExternalOpen()
+		);
+		this.orbSystem.setWindField(this.windField);
+		this.orbSystem.setPointLightsEnabled(this.qualityManager.getTier().orbLights);
+		this.applyLinkSelection();
+		this.setupOrbHoverCard();
+		return grassPlaced;
 	}
 
 	public render() {
 		this.Uniforms.uTime.value += this.clock.getDelta();
 		this.grassMaterial.update(this.Uniforms.uTime.value);
+		this.windField.update(this.Uniforms.uTime.value);
 		this.skySystem.update();
+		this.weatherSystem.update(this.Uniforms.uTime.value);
+		this.updateGrassPointer();
+		this.grassChunks?.update(this.camera);
 		
 		// Update orb system if initialized
 		if (this.orbSystem) {
@@ -458,23 +580,87 @@ export class FluffyGrass {
 			// Update grass material with orb lighting data
 			const orbData = this.orbSystem.getSimpleOrbData();
 			this.grassMaterial.updateOrbLighting(orbData.positions, orbData.intensities);
+			this.updateOrbHoverCard();
 		}
 		
 		this.renderer.render(this.scene, this.camera);
 		// this.postProcessingManager.update();
 		this.stats.update();
+		this.qualityManager.update();
 		this.updateCameraPosition();
 		requestAnimationFrame(() => this.render());
 		this.orbitControls.update();
 	}
 
-	private setupTextures() {
-		this.textures.perlinNoise = this.textureLoader.load("/perlinnoise.webp");
+	private setupOrbHoverCard() {
+		if (this.orbHoverMount) return;
+		this.orbHoverMount = document.createElement("div");
+		this.orbHoverMount.className = "orb-hover-card-mount";
+		document.body.appendChild(this.orbHoverMount);
+		this.orbHoverRoot = createRoot(this.orbHoverMount);
+		this.renderOrbHoverCard();
+		subscribeFavorites(() => this.renderOrbHoverCard());
+		subscribeVisitHistory(() => this.renderOrbHoverCard());
+	}
+
+	/** Follows the hovered orb every frame via CSS vars; React only re-renders when the link or visibility changes. */
+	private updateOrbHoverCard() {
+		const mount = this.orbHoverMount;
+		if (!mount) return;
+
+		const hover = this.orbSystem.getHoveredOrb();
+		const now = performance.now();
+		if (hover) {
+			this.orbHoverLastSeenAt = now;
+			mount.style.setProperty("--orb-x", `${hover.x}px`);
+			mount.style.setProperty("--orb-y", `${hover.y}px`);
+			mount.style.setProperty("--orb-r", `${hover.radius}px`);
+			// Card opens toward the wider side of the viewport
+			mount.classList.toggle("orb-hover-card-mount--left", hover.x > window.innerWidth / 2);
+		}
+
+		const link = hover?.linkData ?? this.orbHoverLink;
+		const visible =
+			!!hover ||
+			this.orbHoverCardPointerInside ||
+			now - this.orbHoverLastSeenAt < ORB_HOVER_CARD_GRACE_MS;
+		if (link !== this.orbHoverLink || visible !== this.orbHoverVisible) {
+			this.orbHoverLink = link;
+			this.orbHoverVisible = visible;
+			this.renderOrbHoverCard();
+		}
+	}
+
+	private renderOrbHoverCard() {
+		const link = this.orbHoverLink;
+		this.orbHoverRoot?.render(
+			<OrbHoverCard
+				link={link}
+				visible={this.orbHoverVisible}
+				saved={link ? isFavorite(link.url) : false}
+				visit={link ? getVisit(link.url) ?? null : null}
+				onToggleSaved={() => link && toggleFavorite(link)}
+				onPointerInsideChange={(inside) => {
+					this.orbHoverCardPointerInside = inside;
+				}}
+			/>
+		);
+	}
+
+	/** `F` while an orb (or its card) is under the pointer. */
+	private toggleHoveredFavorite() {
+		const link = this.orbSystem?.getHoveredOrb()?.linkData ?? (this.orbHoverVisible ? this.orbHoverLink : null);
+		if (!link) return;
+		toggleFavorite(link);
+	}
+
+	private setupTextures(perlinNoise: THREE.Texture, grassAlpha: THREE.Texture) {
+		this.textures.perlinNoise = perlinNoise;
 
 		this.textures.perlinNoise.wrapS = this.textures.perlinNoise.wrapT =
 			THREE.RepeatWrapping;
 
-		this.textures.grassAlpha = this.textureLoader.load("/grass.jpeg");
+		this.textures.grassAlpha = grassAlpha;
 
 		this.grassMaterial.setupTextures(
 			this.textures.grassAlpha,
@@ -493,6 +679,8 @@ export class FluffyGrass {
 		guiContainer.style.right = "auto";
 
 		this.skySystem.setupGUI(this.gui);
+		this.weatherSystem.setupGUI(this.gui);
+		this.qualityManager.setupGUI(this.gui);
 		this.sceneGUI = this.gui.addFolder("Scene Properties");
 		this.autoRotateGui = this.sceneGUI
 			.add(this.orbitControls, "autoRotate")
@@ -513,12 +701,27 @@ export class FluffyGrass {
 			this.scene.fog?.color.set(value);
 			// Keep gradient sky background unchanged
 		});
+		this.sceneGUI
+			.addColor(this.sceneProps, "terrainColor")
+			.onChange((value) => {
+				this.terrainMat.color.set(value);
+			});
 
+		this.grassDensityController = this.sceneGUI
+			.add(this.sceneProps, "grassDensity", 0.25, MAX_GRASS_DENSITY, 0.05)
+			.name("Grass Density")
+			.onChange(() => this.applyGrassDensity());
 		this.grassMaterial.setupGUI(this.sceneGUI);
+		this.grassPainter.setupGUI(this.sceneGUI);
+		this.windField.setupGUI(this.sceneGUI);
 
 		this.sceneGUI.open();
 
-		initScatterTextHero(this.gui);
+		this.setupLinkSelectionGUI();
+
+		this.setupAdminReview();
+
+		initScatterTextHero(this.gui, this.boot.ready);
 
 		this.guiContainerEl = guiContainer;
 		this.guiContainerEl.style.display = "none";
@@ -526,6 +729,75 @@ export class FluffyGrass {
 		this.setupGuiThemeToggle(this.gui.domElement);
 	}
 
+	private setupLinkSelectionGUI() {
+		const folder = this.gui.addFolder("Orb Links");
+		const apply = () => this.applyLinkSelection();
+		const themes: Record<string, string> = { Off: "off", "Of the Day": "today" };
+		for (const tag of LINK_TAGS) {
+			themes[LINK_TAG_LABELS[tag]] = tag;
+		}
+
+		folder
+			.add(this.linkSelectionProps, "strategy", { Rotation: "rotation", Weighted: "weighted" })
+			.name("Strategy")
+			.onChange(apply);
+		folder
+			.add(this.linkSelectionProps, "freshnessBoost", 0, 10, 0.5)
+			.name("Freshness Boost")
+			.onChange(apply);
+		folder.add(this.linkSelectionProps, "theme", themes).name("Theme").onChange(apply);
+		folder.add(this.linkSelectionProps, "seed").name("Seed").onFinishChange(apply);
+
+		const weightsFolder = folder.addFolder("Tag Weights");
+		for (const tag of LINK_TAGS) {
+			weightsFolder.add(this.linkTagWeights, tag, 0, 5, 0.1).name(LINK_TAG_LABELS[tag]).onChange(apply);
+		}
+	}
+
+	/** Freshness, theme and tag weights only apply to the weighted strategy; the seed applies to both. */
+	private applyLinkSelection() {
+		const { strategy, freshnessBoost, theme, seed } = this.linkSelectionProps;
+		const random = seed.trim() ? createSeededRandom(seed.trim()) : Math.random;
+		if (strategy === "rotation") {
+			this.orbSystem?.setLinkSelection(createRotationStrategy(), random);
+			return;
+		}
+		this.orbSystem?.setLinkSelection(
+			createWeightedStrategy({
+				tagWeights: { ...this.linkTagWeights },
+				freshnessBoost,
+				theme: theme === "off" ? null : theme === "today" ? themeOfTheDay() : (theme as LinkTag),
+			}),
+			random
+		);
+	}
+
+	/** Moderation lives behind the GUI chord: the folder only shows once the console is revealed. */
+	private setupAdminReview() {
+		const mount = document.createElement("div");
+		mount.className = "admin-review-mount";
+		document.body.appendChild(mount);
+		this.adminReviewRoot = createRoot(mount);
+		this.renderAdminReview();
+
+		const moderation = { openQueue: () => this.setAdminReviewOpen(true) };
+		this.gui.addFolder("Moderation").add(moderation, "openQueue").name("Review Queue");
+	}
+
+	private setAdminReviewOpen(open: boolean) {
+		this.adminReviewOpen = open;
+		this.renderAdminReview();
+	}
+
+	private renderAdminReview() {
+		this.adminReviewRoot?.render(
+			<AdminReviewPanel
+				open={this.adminReviewOpen}
+				onClose={() => this.setAdminReviewOpen(false)}
+			/>
+		);
+	}
+
 	private setupGuiThemeToggle(panelRoot: HTMLElement) {
 		document.documentElement.style.setProperty(
 			"--console-theme-transition",
@@ -561,6 +833,12 @@ export class FluffyGrass {
 		let urlDraft = "";
 		let urlSubmitState: import("./ui/ConsoleThemeToolbar").UrlSubmitState = "idle";
 		let urlFeedbackMessage = "";
+		let urlSubmitErrorCode: SubmitErrorCode | null = null;
+		let urlDetailsExpanded = false;
+		let urlDetails: SubmitDetails = EMPTY_SUBMIT_DETAILS;
+		let favoritesOpen = false;
+		let favorites = getFavorites();
+		let visitHistory = getVisitHistoryState();
 
 		const skyModeForGuiTheme = (theme: "dark" | "light") =>
 			theme === "light" ? "day" : "night";
@@ -572,6 +850,9 @@ export class FluffyGrass {
 			urlDraft = "";
 			urlSubmitState = "idle";
 			urlFeedbackMessage = "";
+			urlSubmitErrorCode = null;
+			urlDetailsExpanded = false;
+			urlDetails = EMPTY_SUBMIT_DETAILS;
 			renderThemeToolbars();
 		};
 
@@ -585,6 +866,7 @@ export class FluffyGrass {
 
 		const collapseUrlSubmitIfEmpty = () => {
 			if (!urlSubmitExpanded || urlDraft.trim() !== "" || urlSubmitState !== "idle") return;
+			if (urlDetailsExpanded) return;
 			collapseUrlSubmitRow();
 		};
 
@@ -594,8 +876,11 @@ export class FluffyGrass {
 			try {
 				const res = await fetch("/api/submit", {
 					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify({ url }),
+					headers: {
+						"Content-Type": "application/json",
+						[SUBMIT_SESSION_HEADER]: getSubmitSessionId(),
+					},
+					body: JSON.stringify({ url, ...urlDetails } satisfies SubmitPayload),
 				});
 				if (res.ok) {
 					urlFeedbackMessage = "Submitted for Approval!";
@@ -603,11 +888,13 @@ export class FluffyGrass {
 					renderThemeToolbars();
 					setTimeout(collapseUrlSubmitRow, 1000);
 				} else {
-					const body = await res.json().catch(() => ({})) as { error?: string };
+					const body = await res.json().catch(() => ({})) as { error?: string; code?: unknown };
 					urlFeedbackMessage = body.error ?? "Failed to submit";
+					urlSubmitErrorCode = isSubmitErrorCode(body.code) ? body.code : null;
 					urlSubmitState = "error";
 					renderThemeToolbars();
-					setTimeout(collapseUrlSubmitRow, 1000);
+					// Specific reasons take longer to read than "Failed to submit".
+					setTimeout(collapseUrlSubmitRow, urlSubmitErrorCode ? 2200 : 1000);
 				}
 			} catch {
 				urlFeedbackMessage = "Failed to submit";
@@ -617,11 +904,36 @@ export class FluffyGrass {
 			}
 		};
 
+		const setFavoritesOpen = (open: boolean) => {
+			favoritesOpen = open;
+			// Both panels drop into the same spot below the toolbar
+			if (open) urlDetailsExpanded = false;
+			renderThemeToolbars();
+		};
+
+		subscribeFavorites((items) => {
+			favorites = items;
+			renderThemeToolbars();
+		});
+		subscribeVisitHistory((state) => {
+			visitHistory = state;
+			renderThemeToolbars();
+		});
+
+		document.addEventListener("pointerdown", (e) => {
+			if (!favoritesOpen || !(e.target instanceof Element)) return;
+			if (e.target.closest(".fg-favorites, .fg-favorites-toggle")) return;
+			setFavoritesOpen(false);
+		});
+		window.addEventListener("keydown", (e) => {
+			if (e.key === "Escape" && favoritesOpen) setFavoritesOpen(false);
+		});
+
 		const onPointerDownMaybeCollapseUrlRow = (e: PointerEvent) => {
 			if (!urlSubmitExpanded || urlDraft.trim() !== "" || urlSubmitState !== "idle") return;
 			const t = e.target;
 			if (!(t instanceof Node)) return;
-			for (const slot of document.querySelectorAll(".gui-console-theme-add-slot")) {
+			for (const slot of document.querySelectorAll(".gui-console-theme-add-slot, .fg-submit-details")) {
 				if (slot.contains(t)) return;
 			}
 			collapseUrlSubmitIfEmpty();
@@ -641,8 +953,27 @@ export class FluffyGrass {
 				},
 				onSubmitUrl: handleUrlSubmit,
 				onCollapseUrlRow: collapseUrlSubmitRow,
+				detailsExpanded: urlDetailsExpanded,
+				onToggleDetails: () => {
+					urlDetailsExpanded = !urlDetailsExpanded;
+					if (urlDetailsExpanded) favoritesOpen = false;
+					renderThemeToolbars();
+				},
+				details: urlDetails,
+				onDetailsChange: (patch: Partial<SubmitDetails>) => {
+					urlDetails = { ...urlDetails, ...patch };
+					renderThemeToolbars();
+				},
 				submitState: urlSubmitState,
 				feedbackMessage: urlFeedbackMessage,
+				submitErrorCode: urlSubmitErrorCode,
+				favorites,
+				favoritesOpen,
+				onToggleFavorites: () => setFavoritesOpen(!favoritesOpen),
+				onRemoveFavorite: removeFavorite,
+				visitHistory,
+				onVisitHistoryEnabledChange: setVisitHistoryEnabled,
+				onClearVisitHistory: () => void clearVisitHistory(),
 			};
 			inPanelRoot.render(
 				<ConsoleThemeToolbar {...toolbarProps} autofocusUrlInput={false} />
@@ -685,6 +1016,7 @@ export class FluffyGrass {
 		}
 		apply(initial, false, true);
 		this.skySystem.setMode(skyModeForGuiTheme(initial), 0);
+		this.skySystem.importFromURL();
 
 		this.skySystem.setAfterToggleModeHandler(() => {
 			const theme = this.skySystem.getMode() === "day" ? "light" : "dark";
@@ -754,7 +1086,16 @@ export class FluffyGrass {
 
 	private setupEventListeners() {
 		window.addEventListener("resize", () => this.setAspectResolution(), false);
-		/* App shortcuts: P play/pause, S mute/unmute, A open URL row on console toolbar, M/N sky+GUI theme. */
+		this.canvas.addEventListener("pointermove", (event) => {
+			this.grassPointer = new THREE.Vector2(
+				(event.clientX / window.innerWidth) * 2 - 1,
+				-(event.clientY / window.innerHeight) * 2 + 1
+			);
+		});
+		this.canvas.addEventListener("pointerleave", () => {
+			this.grassPointer = null;
+		});
+		/* App shortcuts: P play/pause, S mute/unmute, A open URL row on console toolbar, M/N sky+GUI theme, W weather, F save hovered orb. */
 		window.addEventListener("keydown", (event) => {
 			if (this.shouldIgnoreKeyboardShortcut(event)) {
 				return;
@@ -780,6 +1121,11 @@ export class FluffyGrass {
 				this.skySystem.toggleMode();
 				return;
 			}
+			if (key === "w") {
+				event.preventDefault();
+				this.weatherSystem.cycleMode();
+				return;
+			}
 			if (key === "s") {
 				event.preventDefault();
 				this.toggleTransportMute();
@@ -790,6 +1136,14 @@ export class FluffyGrass {
 				this.expandConsoleUrlSubmitRow?.();
 				return;
 			}
+			if (key === "f") {
+				if (event.repeat) {
+					return;
+				}
+				event.preventDefault();
+				this.toggleHoveredFavorite();
+				return;
+			}
 		});
 
 		// Commented out due to TypeScript errors with private dom property
@@ -812,12 +1166,25 @@ export class FluffyGrass {
 		this.camera.updateProjectionMatrix();
 
 		this.renderer.setSize(window.innerWidth, window.innerHeight);
+		this.qualityManager.refreshPixelRatio();
 		// this.postProcessingManager.composer.setSize(
 		// 	window.innerWidth,
 		// 	window.innerHeight,
 		// );
 	}
 
+	/** Raycasts every frame, not just on move: auto-rotate shifts the terrain under a still cursor. */
+	private updateGrassPointer() {
+		if (!this.grassPointer || !this.terrainMesh) {
+			this.grassMaterial.setPlayerPosition(null);
+			return;
+		}
+
+		this.terrainRaycaster.setFromCamera(this.grassPointer, this.camera);
+		const hit = this.terrainRaycaster.intersectObject(this.terrainMesh, false)[0];
+		this.grassMaterial.setPlayerPosition(hit ? hit.point : null);
+	}
+
 	private updateCameraPosition() {
 		const cameraX = document.getElementById('camera-x');
 		const cameraY = document.getElementById('camera-y');
@@ -862,3 +1229,4 @@ export class FluffyGrass {
 const canvas = document.querySelector("#canvas") as HTMLCanvasElement;
 const app = new FluffyGrass(canvas);
 app.render();
+registerOfflineSupport();
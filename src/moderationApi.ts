@@ -0,0 +1,33 @@
+/** `/api/admin/submissions` contract shared by the API and the review panel: submission rows and review actions. */
+
+import type { LinkPreview } from "./linkPreview";
+import type { LinkTag } from "./linkTags";
+
+export type SubmissionStatus = "pending" | "approved" | "rejected";
+
+export const SUBMISSION_STATUSES: SubmissionStatus[] = ["pending", "approved", "rejected"];
+
+export interface Submission {
+	id: number;
+	url: string;
+	title: string | null;
+	tags: LinkTag[];
+	/** Submitter's "why it inspires you". */
+	note: string | null;
+	submitter_handle: string | null;
+	/** Unfurled page metadata; null until a fetch succeeds. */
+	preview: LinkPreview | null;
+	status: SubmissionStatus;
+	created_at: string;
+	reviewed_at: string | null;
+}
+
+export type ReviewAction = "approve" | "reject" | "edit";
+
+/** Body of `POST /api/admin/submissions`. */
+export interface ReviewRequest {
+	id: number;
+	action: ReviewAction;
+	title?: string;
+	tags?: LinkTag[];
+}
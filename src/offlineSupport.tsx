@@ -0,0 +1,86 @@
+import { createRoot, type Root } from "react-dom/client";
+
+import type { ServiceWorkerMessage } from "./sw";
+import { UpdatePrompt } from "./ui/UpdatePrompt";
+
+/** How often a long-lived tab asks the server for a newer `sw.js`. */
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Registers `/sw.js` (production builds only; dev serves sources unhashed) and shows an in-scene
+ * prompt when a new deploy has been precached and is waiting. Reload hands control to the new
+ * worker, and the page reloads once it has taken over.
+ */
+export function registerOfflineSupport() {
+	if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+	const mount = document.createElement("div");
+	mount.className = "update-prompt-mount";
+	document.body.appendChild(mount);
+	const root: Root = createRoot(mount);
+
+	let waiting: ServiceWorker | null = null;
+	let reloading = false;
+
+	const render = () => {
+		root.render(
+			<UpdatePrompt
+				visible={waiting !== null}
+				onReload={() => {
+					const message: ServiceWorkerMessage = { type: "SKIP_WAITING" };
+					waiting?.postMessage(message);
+				}}
+				onDismiss={() => {
+					waiting = null;
+					render();
+				}}
+			/>
+		);
+	};
+
+	const offerUpdate = (worker: ServiceWorker) => {
+		waiting = worker;
+		render();
+	};
+
+	navigator.serviceWorker.addEventListener("controllerchange", () => {
+		// Only after the user chose Reload; the first install claims the page without one.
+		if (reloading || !waiting) return;
+		reloading = true;
+		window.location.reload();
+	});
+
+	window.addEventListener("load", () => {
+		navigator.serviceWorker
+			.register("/sw.js")
+			.then((registration) => {
+				// An update from an earlier visit may already be waiting.
+				if (registration.waiting && navigator.serviceWorker.controller) {
+					offerUpdate(registration.waiting);
+				}
+
+				registration.addEventListener("updatefound", () => {
+					const installing = registration.installing;
+					installing?.addEventListener("statechange", () => {
+						// No controller means this is the first install, not an update.
+						if (installing.state === "installed" && navigator.serviceWorker.controller) {
+							offerUpdate(installing);
+						}
+					});
+				});
+
+				const checkForUpdate = () => {
+					registration.update().catch(() => {});
+				};
+				window.setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+				document.addEventListener("visibilitychange", () => {
+					if (document.visibilityState === "visible") checkForUpdate();
+				});
+			})
+			.catch((error) => {
+				console.warn("[offline] Service worker registration failed", error);
+			});
+	});
+
+	render();
+}
@@ -0,0 +1,13 @@
+/** URL canonicalisation shared by the orb session dedupe and the submit API (no browser globals). */
+
+/** Canonical form for dedupe: absolute URL, no hash (fragment is not meaningful for these destinations). */
+export function normalizeOrbHref(href: string): string {
+    const raw = href.trim();
+    try {
+        const u = new URL(raw);
+        u.hash = "";
+        return u.href;
+    } catch {
+        return raw;
+    }
+}
@@ -1,5 +1,7 @@
 /** Session-scoped orb link dedupe: same tab + refresh via sessionStorage, in-memory fallback. */
 
+import { normalizeOrbHref } from "./orbHref";
+
 const SESSION_KEY = "fg-orb-clicked-urls";
 
 let storageAvailable = true;
@@ -27,18 +29,6 @@ function loadFromSessionStorage(): void {
 
 loadFromSessionStorage();
 
-/** Canonical form for dedupe: absolute URL, no hash (fragment is not meaningful for these destinations). */
-export function normalizeOrbHref(href: string): string {
-    const raw = href.trim();
-    try {
-        const u = new URL(raw);
-        u.hash = "";
-        return u.href;
-    } catch {
-        return raw;
-    }
-}
-
 function persist(): void {
     if (!storageAvailable) {
         return;
@@ -1,7 +1,7 @@
 import type { GUI } from "dat.gui";
 
-/** Landing motion: enter → hold → exit (see `runScatterHeroIntroMotion`). */
-const SCATTER_HERO_START_DELAY_MS = 1700;
+/** Landing motion: enter → hold → exit (see `runScatterHeroIntroMotion`). Delay counts from scene ready. */
+const SCATTER_HERO_START_DELAY_MS = 600;
 const SCATTER_HERO_ENTER_MS = 1000;
 const SCATTER_HERO_HOLD_MS = 1500;
 const SCATTER_HERO_EXIT_MS = 500;
@@ -9,6 +9,7 @@ const SCATTER_HERO_SLIDE_PX = 72;
 
 function runScatterHeroIntroMotion(
 	root: HTMLElement,
+	ready: Promise<unknown>,
 	onExitComplete: () => void
 ): void {
 	const wrap = root.querySelector(".scatter-text-hero__wrap");
@@ -52,11 +53,14 @@ function runScatterHeroIntroMotion(
 		}, t0 + SCATTER_HERO_EXIT_MS);
 	};
 
-	if (SCATTER_HERO_START_DELAY_MS > 0) {
-		window.setTimeout(startEnter, SCATTER_HERO_START_DELAY_MS);
-	} else {
-		startEnter();
-	}
+	// Stays hidden behind the boot overlay (and through any retries) until the scene is built.
+	void ready.then(() => {
+		if (SCATTER_HERO_START_DELAY_MS > 0) {
+			window.setTimeout(startEnter, SCATTER_HERO_START_DELAY_MS);
+		} else {
+			startEnter();
+		}
+	});
 }
 
 /** Match layout tweaks (stacked headline on small screens). */
@@ -204,8 +208,12 @@ function stripFamilyQuotes(family: string): string {
 
 /**
  * Full-viewport centered scatter-text overlay (WebGL2). Exposes CONFIG-style fields in dat.GUI.
+ * `ready` holds the intro back until it resolves (the scene's boot sequence).
  */
-export function initScatterTextHero(gui: GUI): void {
+export function initScatterTextHero(
+	gui: GUI,
+	ready: Promise<unknown> = Promise.resolve()
+): void {
 	const root = document.getElementById("scatter-text-hero");
 	const canvas = document.getElementById(
 		"scatter-text-canvas"
@@ -426,7 +434,7 @@ export function initScatterTextHero(gui: GUI): void {
 	}
 	window.addEventListener("resize", onWindowResize);
 
-	runScatterHeroIntroMotion(root, () => {
+	runScatterHeroIntroMotion(root, ready, () => {
 		cancelAnimationFrame(raf);
 	});
 
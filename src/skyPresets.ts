@@ -0,0 +1,262 @@
+/** Versioned sky preset JSON: schema validation, migrations, and the localStorage preset library. */
+
+import {
+	DEFAULT_SKY_ATMOSPHERE_SETTINGS,
+	SkyAtmosphereSettings,
+} from "./SkyAtmosphere";
+
+/** v1 was the unversioned "Copy JSON" output; v2 adds `version` and an optional `name`. */
+export const SKY_PRESET_VERSION = 2;
+
+const LIBRARY_KEY = "fg-sky-presets";
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface SkyPreset {
+	version: typeof SKY_PRESET_VERSION;
+	name?: string;
+	sun: {
+		azimuth: number;
+		elevation: number;
+	};
+	atmosphere: SkyAtmosphereSettings;
+	lighting: {
+		exposure: number;
+		directionalLightIntensity: number;
+		directionalLightColor: string;
+		ambientLightIntensity: number;
+		ambientLightColor: string;
+	};
+	fog: {
+		density: number;
+		color: string;
+	};
+}
+
+export type SkyPresetParseResult = { preset: SkyPreset } | { error: string };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+	typeof value === "number" && Number.isFinite(value);
+
+/** v1 → v2: derive azimuth/elevation from `sun.direction` when only the vector was kept. */
+const migrateV1 = (raw: JsonObject): JsonObject => {
+	const sun = isObject(raw.sun) ? { ...raw.sun } : {};
+	const direction = sun.direction;
+
+	if (
+		(!isFiniteNumber(sun.azimuth) || !isFiniteNumber(sun.elevation)) &&
+		Array.isArray(direction) &&
+		direction.length === 3 &&
+		direction.every(isFiniteNumber)
+	) {
+		const [x, y, z] = direction as number[];
+		const length = Math.hypot(x, y, z) || 1;
+		sun.azimuth = (Math.atan2(z, x) * 180) / Math.PI;
+		sun.elevation = (Math.asin(y / length) * 180) / Math.PI;
+	}
+
+	return { ...raw, sun, version: 2 };
+};
+
+const MIGRATIONS: Record<number, (raw: JsonObject) => JsonObject> = {
+	1: migrateV1,
+};
+
+const readNumber = (source: unknown, key: string, path: string, errors: string[]) => {
+	const value = isObject(source) ? source[key] : undefined;
+	if (!isFiniteNumber(value)) {
+		errors.push(`${path}.${key} must be a number`);
+		return 0;
+	}
+	return value;
+};
+
+const readColor = (source: unknown, key: string, path: string, errors: string[]) => {
+	const value = isObject(source) ? source[key] : undefined;
+	if (typeof value !== "string" || !HEX_COLOR.test(value)) {
+		errors.push(`${path}.${key} must be a #rrggbb color`);
+		return "#000000";
+	}
+	return value.toLowerCase();
+};
+
+/** Missing atmosphere keys fall back to defaults so older exports keep loading as new settings appear. */
+const readAtmosphere = (source: unknown, errors: string[]): SkyAtmosphereSettings => {
+	const atmosphere = { ...DEFAULT_SKY_ATMOSPHERE_SETTINGS };
+	if (source === undefined) {
+		return atmosphere;
+	}
+	if (!isObject(source)) {
+		errors.push("atmosphere must be an object");
+		return atmosphere;
+	}
+
+	for (const key of Object.keys(atmosphere) as (keyof SkyAtmosphereSettings)[]) {
+		if (source[key] === undefined) continue;
+		(atmosphere as Record<string, number | string>)[key] =
+			typeof atmosphere[key] === "number"
+				? readNumber(source, key, "atmosphere", errors)
+				: readColor(source, key, "atmosphere", errors);
+	}
+
+	return atmosphere;
+};
+
+/** Accepts a JSON string or parsed value, migrates it to the current version and validates every field. */
+export function parseSkyPreset(input: unknown): SkyPresetParseResult {
+	let raw = input;
+
+	if (typeof raw === "string") {
+		try {
+			raw = JSON.parse(raw) as unknown;
+		} catch {
+			return { error: "Not valid JSON" };
+		}
+	}
+
+	if (!isObject(raw)) {
+		return { error: "Sky preset must be a JSON object" };
+	}
+
+	let version = raw.version === undefined ? 1 : raw.version;
+	if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 1) {
+		return { error: `Unsupported sky preset version ${String(raw.version)}` };
+	}
+	if (version > SKY_PRESET_VERSION) {
+		return { error: `Sky preset version ${version} is newer than this build (${SKY_PRESET_VERSION})` };
+	}
+
+	let migrated: JsonObject = raw;
+	while (version < SKY_PRESET_VERSION) {
+		migrated = MIGRATIONS[version](migrated);
+		version += 1;
+	}
+
+	const errors: string[] = [];
+	const preset: SkyPreset = {
+		version: SKY_PRESET_VERSION,
+		sun: {
+			azimuth: readNumber(migrated.sun, "azimuth", "sun", errors),
+			elevation: readNumber(migrated.sun, "elevation", "sun", errors),
+		},
+		atmosphere: readAtmosphere(migrated.atmosphere, errors),
+		lighting: {
+			exposure: readNumber(migrated.lighting, "exposure", "lighting", errors),
+			directionalLightIntensity: readNumber(migrated.lighting, "directionalLightIntensity", "lighting", errors),
+			directionalLightColor: readColor(migrated.lighting, "directionalLightColor", "lighting", errors),
+			ambientLightIntensity: readNumber(migrated.lighting, "ambientLightIntensity", "lighting", errors),
+			ambientLightColor: readColor(migrated.lighting, "ambientLightColor", "lighting", errors),
+		},
+		fog: {
+			density: readNumber(migrated.fog, "density", "fog", errors),
+			color: readColor(migrated.fog, "color", "fog", errors),
+		},
+	};
+
+	if (typeof migrated.name === "string" && migrated.name.trim() !== "") {
+		preset.name = migrated.name.trim();
+	}
+
+	if (errors.length > 0) {
+		return { error: errors.join("; ") };
+	}
+
+	return { preset };
+}
+
+/** `?sky=` carries either URL-encoded JSON or base64url JSON (shorter links). */
+export function readSkyPresetFromSearch(search: string): SkyPresetParseResult | null {
+	const value = new URLSearchParams(search).get("sky");
+	if (!value) {
+		return null;
+	}
+
+	if (value.trim().startsWith("{")) {
+		return parseSkyPreset(value);
+	}
+
+	try {
+		const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+		return parseSkyPreset(atob(base64));
+	} catch {
+		return { error: "The sky URL parameter is not valid JSON or base64" };
+	}
+}
+
+export interface SkyLibraryEntry {
+	name: string;
+	preset: SkyPreset;
+}
+
+/** Invalid stored entries are dropped rather than breaking the whole library. */
+export function loadSkyLibrary(): SkyLibraryEntry[] {
+	try {
+		const raw = localStorage.getItem(LIBRARY_KEY);
+		if (!raw) {
+			return [];
+		}
+		const parsed = JSON.parse(raw) as unknown;
+		if (!Array.isArray(parsed)) {
+			return [];
+		}
+
+		const entries: SkyLibraryEntry[] = [];
+		for (const item of parsed) {
+			if (!isObject(item) || typeof item.name !== "string") continue;
+			const result = parseSkyPreset(item.preset);
+			if ("preset" in result) {
+				entries.push({ name: item.name, preset: result.preset });
+			}
+		}
+		return entries;
+	} catch {
+		return [];
+	}
+}
+
+function persistSkyLibrary(entries: SkyLibraryEntry[]): void {
+	try {
+		localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+	} catch {
+		/* ignore quota / private mode */
+	}
+}
+
+/** Saving under an existing name overwrites that entry in place. */
+export function saveSkyPreset(name: string, preset: SkyPreset): SkyLibraryEntry[] {
+	const entries = loadSkyLibrary();
+	const entry = { name, preset: { ...preset, name } };
+	const index = entries.findIndex((e) => e.name === name);
+
+	if (index === -1) {
+		entries.push(entry);
+	} else {
+		entries[index] = entry;
+	}
+
+	persistSkyLibrary(entries);
+	return entries;
+}
+
+export function renameSkyPreset(from: string, to: string): SkyLibraryEntry[] {
+	const entries = loadSkyLibrary();
+	if (from === to || entries.some((e) => e.name === to)) {
+		return entries;
+	}
+
+	const next = entries.map((e) =>
+		e.name === from ? { name: to, preset: { ...e.preset, name: to } } : e
+	);
+	persistSkyLibrary(next);
+	return next;
+}
+
+export function deleteSkyPreset(name: string): SkyLibraryEntry[] {
+	const next = loadSkyLibrary().filter((e) => e.name !== name);
+	persistSkyLibrary(next);
+	return next;
+}
@@ -0,0 +1,80 @@
+/** `/api/submit` contract shared by the API and the console toolbar: error codes (`{ error, code }`) and limits. */
+
+import type { LinkTag } from "./linkTags";
+
+export type SubmitErrorCode =
+	| "invalid_url"
+	| "unsupported_protocol"
+	| "url_too_long"
+	| "private_host"
+	| "unknown_host"
+	| "blocked_domain"
+	| "invalid_title"
+	| "invalid_note"
+	| "invalid_tags"
+	| "invalid_handle"
+	| "duplicate"
+	| "rate_limited"
+	| "server_error";
+
+export const SUBMIT_ERROR_CODES: SubmitErrorCode[] = [
+	"invalid_url",
+	"unsupported_protocol",
+	"url_too_long",
+	"private_host",
+	"unknown_host",
+	"blocked_domain",
+	"invalid_title",
+	"invalid_note",
+	"invalid_tags",
+	"invalid_handle",
+	"duplicate",
+	"rate_limited",
+	"server_error",
+];
+
+/** Longest URL `/api/submit` accepts, in characters. */
+export const SUBMIT_URL_MAX_LENGTH = 2048;
+export const SUBMIT_TITLE_MAX_LENGTH = 120;
+export const SUBMIT_NOTE_MAX_LENGTH = 500;
+/** Tags per submission, all from `LINK_TAGS`. */
+export const SUBMIT_TAGS_MAX = 3;
+/** X usernames: 1–15 letters, digits or underscores; a leading @ is allowed and stripped. */
+export const X_HANDLE_PATTERN = /^@?([A-Za-z0-9_]{1,15})$/;
+
+/** Optional context sent with a URL; every field may be left empty. */
+export interface SubmitDetails {
+	title: string;
+	note: string;
+	tags: LinkTag[];
+	handle: string;
+}
+
+export const EMPTY_SUBMIT_DETAILS: SubmitDetails = { title: "", note: "", tags: [], handle: "" };
+
+/** Body of `POST /api/submit`. */
+export interface SubmitPayload extends Partial<SubmitDetails> {
+	url: string;
+}
+
+/** Header carrying the per-tab id the submit rate limit counts alongside the client IP. */
+export const SUBMIT_SESSION_HEADER = "X-Submit-Session";
+
+export function isSubmitErrorCode(value: unknown): value is SubmitErrorCode {
+	return SUBMIT_ERROR_CODES.includes(value as SubmitErrorCode);
+}
+
+const SESSION_KEY = "fg-submit-session";
+
+/** Random per-tab id sent as `SUBMIT_SESSION_HEADER`; regenerated when sessionStorage is unavailable. */
+export function getSubmitSessionId(): string {
+	try {
+		const existing = sessionStorage.getItem(SESSION_KEY);
+		if (existing) return existing;
+		const id = crypto.randomUUID();
+		sessionStorage.setItem(SESSION_KEY, id);
+		return id;
+	} catch {
+		return crypto.randomUUID();
+	}
+}
@@ -0,0 +1,154 @@
+/// <reference lib="webworker" />
+
+/**
+ * Offline support. Built as its own entry (`/sw.js`); `serviceWorkerPrecache` in vite.config.ts fills
+ * in the precache list (every build output plus `public/`) and a version hashed from their contents.
+ * The inspiration catalog is precached with them and kept fresh in that same versioned cache.
+ * A new version installs alongside the old one and waits until the page asks it to take over.
+ */
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __PRECACHE_VERSION__: string;
+
+const CACHE_PREFIX = "inspoland-";
+const PRECACHE = `${CACHE_PREFIX}precache-${__PRECACHE_VERSION__}`;
+const RUNTIME = `${CACHE_PREFIX}runtime-v1`;
+const CATALOG_URL = "/api/links";
+
+/** Third-party origins the scene needs offline: Google Fonts, the Draco decoder, the rotate-mode track. */
+const RUNTIME_ORIGINS = [
+	"https://fonts.googleapis.com",
+	"https://fonts.gstatic.com",
+	"https://www.gstatic.com",
+	"https://res.cloudinary.com",
+];
+
+/** Fetched whole at install: audio is streamed with Range requests, and partial responses can't be cached. */
+const WARM_URLS = [
+	"https://res.cloudinary.com/dwf4f4ftl/video/upload/v1777800882/Static_Orchard_345_qqlbvv.mp3",
+];
+
+export type ServiceWorkerMessage = { type: "SKIP_WAITING" };
+
+self.addEventListener("install", (event) => {
+	event.waitUntil(
+		(async () => {
+			const precache = await caches.open(PRECACHE);
+			await precache.addAll(__PRECACHE_MANIFEST__);
+			// Not in `addAll`: the catalog being down shouldn't block a deploy, the bundled links cover it.
+			try {
+				const catalog = await fetch(CATALOG_URL, { cache: "no-cache" });
+				if (catalog.status === 200) await precache.put(CATALOG_URL, catalog);
+			} catch {
+				// Fetched again, and cached, the first time the page asks for it.
+			}
+
+			const runtime = await caches.open(RUNTIME);
+			await Promise.all(
+				WARM_URLS.map(async (url) => {
+					if (await runtime.match(url)) return;
+					try {
+						const response = await fetch(url, { mode: "cors" });
+						if (response.status === 200) await runtime.put(url, response);
+					} catch {
+						// Best effort; the track is fetched again when rotate mode starts.
+					}
+				})
+			);
+		})()
+	);
+});
+
+self.addEventListener("activate", (event) => {
+	event.waitUntil(
+		(async () => {
+			const keys = await caches.keys();
+			await Promise.all(
+				keys
+					.filter((key) => key.startsWith(`${CACHE_PREFIX}precache-`) && key !== PRECACHE)
+					.map((key) => caches.delete(key))
+			);
+			// Earlier workers kept the catalog in the unversioned runtime cache.
+			const runtime = await caches.open(RUNTIME);
+			await runtime.delete(CATALOG_URL, { ignoreSearch: true });
+			await self.clients.claim();
+		})()
+	);
+});
+
+self.addEventListener("message", (event) => {
+	const message = event.data as ServiceWorkerMessage | undefined;
+	if (message?.type === "SKIP_WAITING") {
+		void self.skipWaiting();
+	}
+});
+
+self.addEventListener("fetch", (event) => {
+	const { request } = event;
+	if (request.method !== "GET") return;
+	const url = new URL(request.url);
+
+	if (url.origin === self.location.origin) {
+		if (url.pathname === CATALOG_URL) {
+			event.respondWith(networkFirstCatalog(request));
+			return;
+		}
+		if (url.pathname.startsWith("/api/")) return;
+		if (request.mode === "navigate") {
+			event.respondWith(networkFirst(request, "/index.html"));
+			return;
+		}
+		event.respondWith(precacheFirst(request));
+		return;
+	}
+
+	if (RUNTIME_ORIGINS.includes(url.origin)) {
+		event.respondWith(runtimeCacheFirst(request));
+	}
+});
+
+/** Fresh HTML when online so a new deploy is noticed; the precached shell when not. */
+async function networkFirst(request: Request, fallbackUrl: string) {
+	try {
+		return await fetch(request);
+	} catch (error) {
+		const cached = await caches.match(fallbackUrl, { cacheName: PRECACHE });
+		if (cached) return cached;
+		throw error;
+	}
+}
+
+async function precacheFirst(request: Request) {
+	const cached = await caches.match(request, { cacheName: PRECACHE });
+	return cached ?? fetch(request);
+}
+
+/** The inspiration catalog: fresh when online, the last copy this version saw when not. */
+async function networkFirstCatalog(request: Request) {
+	const cache = await caches.open(PRECACHE);
+	try {
+		const response = await fetch(request);
+		if (response.status === 200) {
+			await cache.put(request, response.clone());
+		}
+		return response;
+	} catch (error) {
+		const cached = await cache.match(request);
+		if (cached) return cached;
+		throw error;
+	}
+}
+
+async function runtimeCacheFirst(request: Request) {
+	const cache = await caches.open(RUNTIME);
+	const cached = await cache.match(request);
+	if (cached) return cached;
+
+	const response = await fetch(request);
+	// 206 partials can't be stored. Opaque (no-cors) responses can, e.g. the Google Fonts stylesheet.
+	if (response.status === 200 || response.type === "opaque") {
+		await cache.put(request, response.clone());
+	}
+	return response;
+}
@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import { Check, ExternalLink, Lock, RotateCw, Save, X } from "lucide-react";
+import {
+	AdminApiError,
+	fetchSubmissions,
+	getAdminToken,
+	reviewSubmission,
+	setAdminToken,
+} from "../adminApi";
+import {
+	SUBMISSION_STATUSES,
+	type ReviewAction,
+	type Submission,
+	type SubmissionStatus,
+} from "../moderationApi";
+import { LINK_TAGS, LINK_TAG_LABELS, type LinkTag } from "../linkTags";
+import { SUBMIT_TAGS_MAX } from "../submitApi";
+import { IconButton } from "./IconButton";
+
+export type AdminReviewPanelProps = {
+	open: boolean;
+	onClose: () => void;
+};
+
+type Draft = { title: string; tags: LinkTag[] };
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+	pending: "Pending",
+	approved: "Approved",
+	rejected: "Rejected",
+};
+
+const draftFor = (submission: Submission): Draft => ({
+	title: submission.title ?? "",
+	tags: submission.tags,
+});
+
+const toggleTag = (tags: LinkTag[], tag: LinkTag) =>
+	tags.includes(tag)
+		? tags.filter((t) => t !== tag)
+		: tags.length < SUBMIT_TAGS_MAX
+			? [...tags, tag]
+			: tags;
+
+/** Review queue for `/api/submit` entries. Hidden unless opened from the GUI's Moderation folder. */
+export function AdminReviewPanel({ open, onClose }: AdminReviewPanelProps) {
+	const [token, setToken] = useState(getAdminToken);
+	const [tokenDraft, setTokenDraft] = useState("");
+	const [status, setStatus] = useState<SubmissionStatus>("pending");
+	const [submissions, setSubmissions] = useState<Submission[]>([]);
+	const [drafts, setDrafts] = useState<Record<number, Draft>>({});
+	const [busyId, setBusyId] = useState<number | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState("");
+
+	const handleError = useCallback((e: unknown) => {
+		if (e instanceof AdminApiError && e.status === 401) {
+			setAdminToken("");
+			setToken("");
+			setError("That token wasn't accepted.");
+			return;
+		}
+		setError(e instanceof Error ? e.message : "Something went wrong");
+	}, []);
+
+	const load = useCallback(async () => {
+		if (!token) return;
+		setLoading(true);
+		setError("");
+		try {
+			const rows = await fetchSubmissions(token, status);
+			setSubmissions(rows);
+			setDrafts(Object.fromEntries(rows.map((row) => [row.id, draftFor(row)])));
+		} catch (e) {
+			handleError(e);
+		} finally {
+			setLoading(false);
+		}
+	}, [token, status, handleError]);
+
+	useEffect(() => {
+		if (open) void load();
+	}, [open, load]);
+
+	useEffect(() => {
+		if (!open) return;
+		const onKeyDown = (e: KeyboardEvent) => {
+			if (e.key === "Escape") onClose();
+		};
+		window.addEventListener("keydown", onKeyDown);
+		return () => window.removeEventListener("keydown", onKeyDown);
+	}, [open, onClose]);
+
+	const unlock = (e: FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const value = tokenDraft.trim();
+		if (!value) return;
+		setAdminToken(value);
+		setToken(value);
+		setTokenDraft("");
+	};
+
+	const review = async (submission: Submission, action: ReviewAction) => {
+		const draft = drafts[submission.id] ?? draftFor(submission);
+		setBusyId(submission.id);
+		setError("");
+		try {
+			const updated = await reviewSubmission(token, {
+				id: submission.id,
+				action,
+				title: draft.title.trim(),
+				tags: draft.tags,
+			});
+			setSubmissions((rows) =>
+				updated.status === status
+					? rows.map((row) => (row.id === updated.id ? updated : row))
+					: rows.filter((row) => row.id !== updated.id)
+			);
+		} catch (e) {
+			handleError(e);
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	const updateDraft = (id: number, patch: Partial<Draft>) =>
+		setDrafts((all) => ({ ...all, [id]: { ...(all[id] ?? { title: "", tags: [] }), ...patch } }));
+
+	return (
+		<div
+			className={`admin-review${open ? " admin-review--open" : ""}`}
+			role="dialog"
+			aria-label="Submission review queue"
+			aria-hidden={!open}
+		>
+			<header className="admin-review__header">
+				<h2 className="admin-review__title">Review queue</h2>
+				{token && (
+					<IconButton
+						className="admin-review__icon-btn"
+						aria-label="Refresh"
+						onClick={() => void load()}
+						disabled={loading}
+					>
+						<RotateCw size={14} strokeWidth={2} aria-hidden />
+					</IconButton>
+				)}
+				<IconButton className="admin-review__icon-btn" aria-label="Close review queue" onClick={onClose}>
+					<X size={14} strokeWidth={2} aria-hidden />
+				</IconButton>
+			</header>
+
+			{!token ? (
+				<form className="admin-review__unlock" onSubmit={unlock}>
+					<Lock size={14} strokeWidth={2} aria-hidden />
+					<input
+						type="password"
+						className="admin-review__input"
+						placeholder="Admin token"
+						autoComplete="off"
+						value={tokenDraft}
+						onChange={(e) => setTokenDraft(e.target.value)}
+					/>
+					<button type="submit" className="admin-review__btn">
+						Unlock
+					</button>
+				</form>
+			) : (
+				<>
+					<nav className="admin-review__tabs" aria-label="Submission status">
+						{SUBMISSION_STATUSES.map((value) => (
+							<button
+								key={value}
+								type="button"
+								className={`admin-review__tab${value === status ? " admin-review__tab--active" : ""}`}
+								aria-pressed={value === status}
+								onClick={() => setStatus(value)}
+							>
+								{STATUS_LABELS[value]}
+							</button>
+						))}
+					</nav>
+
+					<ul className="admin-review__list">
+						{!loading && submissions.length === 0 && (
+							<li className="admin-review__empty">Nothing {STATUS_LABELS[status].toLowerCase()}.</li>
+						)}
+						{submissions.map((submission) => {
+							const draft = drafts[submission.id] ?? draftFor(submission);
+							const busy = busyId === submission.id;
+							return (
+								<li key={submission.id} className="admin-review__item">
+									<a
+										className="admin-review__url"
+										href={submission.url}
+										target="_blank"
+										rel="noopener noreferrer"
+									>
+										<span>{submission.url}</span>
+										<ExternalLink size={12} strokeWidth={2} aria-hidden />
+									</a>
+									{submission.preview?.description && (
+										<p className="admin-review__preview">
+											{submission.preview.siteName && (
+												<span className="admin-review__preview-site">{submission.preview.siteName} · </span>
+											)}
+											{submission.preview.description}
+										</p>
+									)}
+									<input
+										className="admin-review__input"
+										placeholder={submission.preview?.title ?? "Title"}
+										value={draft.title}
+										onChange={(e) => updateDraft(submission.id, { title: e.target.value })}
+									/>
+									{(submission.note || submission.submitter_handle) && (
+										<p className="admin-review__note">
+											{submission.note}
+											{submission.submitter_handle && (
+												<span className="admin-review__handle">
+													{" "}
+													— @{submission.submitter_handle}
+												</span>
+											)}
+										</p>
+									)}
+									<div className="admin-review__tags" role="group" aria-label="Tags">
+										{LINK_TAGS.map((tag) => (
+											<button
+												key={tag}
+												type="button"
+												className={`admin-review__tag${draft.tags.includes(tag) ? " admin-review__tag--active" : ""}`}
+												aria-pressed={draft.tags.includes(tag)}
+												onClick={() => updateDraft(submission.id, { tags: toggleTag(draft.tags, tag) })}
+											>
+												{LINK_TAG_LABELS[tag]}
+											</button>
+										))}
+									</div>
+									<div className="admin-review__actions">
+										{submission.status !== "approved" && (
+											<button
+												type="button"
+												className="admin-review__btn admin-review__btn--approve"
+												disabled={busy}
+												onClick={() => void review(submission, "approve")}
+											>
+												<Check size={14} strokeWidth={2} aria-hidden />
+												Approve
+											</button>
+										)}
+										{submission.status !== "rejected" && (
+											<button
+												type="button"
+												className="admin-review__btn"
+												disabled={busy}
+												onClick={() => void review(submission, "reject")}
+											>
+												<X size={14} strokeWidth={2} aria-hidden />
+												Reject
+											</button>
+										)}
+										<button
+											type="button"
+											className="admin-review__btn"
+											disabled={busy}
+											onClick={() => void review(submission, "edit")}
+										>
+											<Save size={14} strokeWidth={2} aria-hidden />
+											Save
+										</button>
+									</div>
+								</li>
+							);
+						})}
+					</ul>
+				</>
+			)}
+
+			{error && (
+				<p className="admin-review__error" role="alert">
+					{error}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,57 @@
+import { RotateCw } from "lucide-react";
+
+export type BootOverlayState =
+	| { phase: "loading"; progress: number; label: string }
+	| { phase: "error"; message: string }
+	| { phase: "ready" };
+
+export type BootOverlayProps = {
+	state: BootOverlayState;
+	/** Re-runs the whole load (see `BootSequence.retry`). */
+	onRetry: () => void;
+};
+
+export function BootOverlay({ state, onRetry }: BootOverlayProps) {
+	const hidden = state.phase === "ready";
+
+	return (
+		<div
+			className={`boot-overlay${hidden ? " boot-overlay--hidden" : ""}`}
+			role="status"
+			aria-live="polite"
+			aria-hidden={hidden}
+		>
+			{state.phase === "error" ? (
+				<div className="boot-overlay__error">
+					<p className="boot-overlay__message">{state.message}</p>
+					<button type="button" className="boot-overlay__retry" onClick={onRetry}>
+						<RotateCw size={16} strokeWidth={2} aria-hidden />
+						<span>Try again</span>
+					</button>
+				</div>
+			) : (
+				<div className="boot-overlay__progress">
+					<div
+						className="boot-overlay__bar"
+						role="progressbar"
+						aria-valuemin={0}
+						aria-valuemax={100}
+						aria-valuenow={
+							state.phase === "loading" ? Math.round(state.progress * 100) : 100
+						}
+					>
+						<div
+							className="boot-overlay__bar-fill"
+							style={{
+								transform: `scaleX(${state.phase === "loading" ? state.progress : 1})`,
+							}}
+						/>
+					</div>
+					<p className="boot-overlay__label">
+						{state.phase === "loading" ? state.label : "Ready"}
+					</p>
+				</div>
+			)}
+		</div>
+	);
+}
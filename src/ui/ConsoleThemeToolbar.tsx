@@ -1,6 +1,18 @@
-import { useLayoutEffect, useRef, type FormEvent } from "react";
-import { Link, Moon, Plus, Sun } from "lucide-react";
+import { useLayoutEffect, useRef, type FormEvent, type KeyboardEvent } from "react";
+import { ChevronDown, Heart, Link, Moon, Plus, Sun } from "lucide-react";
+import type { FavoriteLink } from "../favorites";
+import type { VisitHistoryState } from "../visitHistory";
+import { FavoritesShelf } from "./FavoritesShelf";
 import { IconButton } from "./IconButton";
+import { LINK_TAGS, LINK_TAG_LABELS, type LinkTag } from "../linkTags";
+import {
+	SUBMIT_NOTE_MAX_LENGTH,
+	SUBMIT_TAGS_MAX,
+	SUBMIT_TITLE_MAX_LENGTH,
+	SUBMIT_URL_MAX_LENGTH,
+	type SubmitDetails,
+	type SubmitErrorCode,
+} from "../submitApi";
 
 export type GuiConsoleTheme = "dark" | "light";
 export type UrlSubmitState = "idle" | "submitting" | "success" | "error";
@@ -8,6 +20,23 @@ export type UrlSubmitState = "idle" | "submitting" | "success" | "error";
 /** Dispatched on URL row submit; `event.detail` is `{ url: string }`. */
 export const FLUFFYGRASS_URL_SUBMIT_EVENT = "fluffygrass:url-submit";
 
+/** Feedback for each `/api/submit` rejection; kept short enough for the one-line URL row. */
+const SUBMIT_ERROR_MESSAGES: Record<SubmitErrorCode, string> = {
+	invalid_url: "That doesn't look like a URL",
+	unsupported_protocol: "Only http(s) links, please",
+	url_too_long: `Keep it under ${SUBMIT_URL_MAX_LENGTH} characters`,
+	private_host: "Link must be a public website",
+	unknown_host: "Couldn't find that website",
+	blocked_domain: "Links from that domain aren't accepted",
+	invalid_title: `Title: ${SUBMIT_TITLE_MAX_LENGTH} characters max`,
+	invalid_note: `Note: ${SUBMIT_NOTE_MAX_LENGTH} characters max`,
+	invalid_tags: `Pick up to ${SUBMIT_TAGS_MAX} tags`,
+	invalid_handle: "That X handle doesn't look right",
+	duplicate: "Already in the grassland!",
+	rate_limited: "Too many sends, try again later",
+	server_error: "Failed to submit",
+};
+
 export type ConsoleThemeToolbarProps = {
 	theme: GuiConsoleTheme;
 	/** Cycles light ↔ dark GUI and sky (same as `skySystem.toggleMode()` / M N keys). */
@@ -16,10 +45,26 @@ export type ConsoleThemeToolbarProps = {
 	onRequestUrlSubmitExpand: () => void;
 	urlDraft: string;
 	onUrlDraftChange: (value: string) => void;
+	/** Details travel with the URL; main reads them from its own draft. */
 	onSubmitUrl: (url: string) => void;
 	onCollapseUrlRow: () => void;
+	/** Optional title / note / tags / X handle, edited in a panel that drops below the URL row. */
+	detailsExpanded: boolean;
+	onToggleDetails: () => void;
+	details: SubmitDetails;
+	onDetailsChange: (patch: Partial<SubmitDetails>) => void;
 	submitState: UrlSubmitState;
 	feedbackMessage?: string;
+	/** Set from the API's `code` on a rejected submit; picks the message over `feedbackMessage`. */
+	submitErrorCode?: SubmitErrorCode | null;
+	/** Saved inspirations shelf, dropped below the toolbar by the heart button. */
+	favorites: FavoriteLink[];
+	favoritesOpen: boolean;
+	onToggleFavorites: () => void;
+	onRemoveFavorite: (url: string) => void;
+	visitHistory: VisitHistoryState;
+	onVisitHistoryEnabledChange: (enabled: boolean) => void;
+	onClearVisitHistory: () => void;
 	/** Only one toolbar instance should autofocus (e.g. floating vs in-panel). */
 	autofocusUrlInput?: boolean;
 };
@@ -33,8 +78,20 @@ export function ConsoleThemeToolbar({
 	onUrlDraftChange,
 	onSubmitUrl,
 	onCollapseUrlRow: _onCollapseUrlRow,
+	detailsExpanded,
+	onToggleDetails,
+	details,
+	onDetailsChange,
 	submitState,
 	feedbackMessage = "",
+	submitErrorCode = null,
+	favorites,
+	favoritesOpen,
+	onToggleFavorites,
+	onRemoveFavorite,
+	visitHistory,
+	onVisitHistoryEnabledChange,
+	onClearVisitHistory,
 	autofocusUrlInput = false,
 }: ConsoleThemeToolbarProps) {
 	const inputRef = useRef<HTMLInputElement>(null);
@@ -45,13 +102,32 @@ export function ConsoleThemeToolbar({
 		}
 	}, [urlSubmitExpanded, autofocusUrlInput, submitState]);
 
-	const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
-		e.preventDefault();
+	const submitDraft = () => {
 		const url = urlDraft.trim();
 		if (!url || submitState === "submitting") return;
 		onSubmitUrl(url);
 	};
 
+	const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		submitDraft();
+	};
+
+	/** Detail inputs sit outside the URL form (the row clips overflow), so Enter is wired by hand. */
+	const submitOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+		if (e.key !== "Enter") return;
+		e.preventDefault();
+		submitDraft();
+	};
+
+	const toggleTag = (tag: LinkTag) => {
+		const selected = details.tags.includes(tag);
+		if (!selected && details.tags.length >= SUBMIT_TAGS_MAX) return;
+		onDetailsChange({
+			tags: selected ? details.tags.filter((t) => t !== tag) : [...details.tags, tag],
+		});
+	};
+
 	const editorVisible =
 		submitState === "idle" || submitState === "submitting";
 	const feedbackVisible = submitState === "success" || submitState === "error";
@@ -92,6 +168,20 @@ export function ConsoleThemeToolbar({
 						aria-label="Page or asset URL"
 						disabled={submitState === "submitting"}
 					/>
+					<button
+						type="button"
+						className={
+							"fg-url-input-group__addon fg-url-input-group__addon--details" +
+							(detailsExpanded ? " fg-url-input-group__addon--details-open" : "")
+						}
+						aria-label={detailsExpanded ? "Hide details" : "Add details"}
+						title={detailsExpanded ? "Hide details" : "Add title, note, tags"}
+						aria-expanded={detailsExpanded}
+						onClick={onToggleDetails}
+						disabled={submitState === "submitting"}
+					>
+						<ChevronDown size={14} strokeWidth={2} aria-hidden />
+					</button>
 					<button
 						type="submit"
 						className="fg-url-input-group__addon fg-url-input-group__addon--trailing"
@@ -123,15 +213,98 @@ export function ConsoleThemeToolbar({
 					{submitState === "success"
 						? feedbackMessage || "Submitted for Approval!"
 						: submitState === "error"
-							? feedbackMessage || "Failed to submit"
+							? (submitErrorCode && SUBMIT_ERROR_MESSAGES[submitErrorCode]) ||
+								feedbackMessage ||
+								"Failed to submit"
 							: ""}
 				</div>
 			</div>
 		</div>
 	);
 
+	const detailsVisible = urlSubmitExpanded && detailsExpanded && editorVisible;
+
+	const renderDetailsPanel = () => (
+		<div
+			className={"fg-submit-details" + (detailsVisible ? " fg-submit-details--open" : "")}
+			aria-hidden={!detailsVisible}
+			role="group"
+			aria-label="Submission details"
+		>
+			<input
+				type="text"
+				className="fg-submit-details__field"
+				placeholder="Title"
+				maxLength={SUBMIT_TITLE_MAX_LENGTH}
+				value={details.title}
+				onChange={(ev) => onDetailsChange({ title: ev.target.value })}
+				onKeyDown={submitOnEnter}
+				disabled={submitState === "submitting"}
+				tabIndex={detailsVisible ? 0 : -1}
+			/>
+			<textarea
+				className="fg-submit-details__field fg-submit-details__field--note"
+				placeholder="Why does it inspire you?"
+				maxLength={SUBMIT_NOTE_MAX_LENGTH}
+				rows={3}
+				value={details.note}
+				onChange={(ev) => onDetailsChange({ note: ev.target.value })}
+				disabled={submitState === "submitting"}
+				tabIndex={detailsVisible ? 0 : -1}
+			/>
+			<div className="fg-submit-details__tags" role="group" aria-label={`Tags (up to ${SUBMIT_TAGS_MAX})`}>
+				{LINK_TAGS.map((tag) => {
+					const selected = details.tags.includes(tag);
+					return (
+						<button
+							key={tag}
+							type="button"
+							className={"fg-submit-details__tag" + (selected ? " fg-submit-details__tag--selected" : "")}
+							aria-pressed={selected}
+							disabled={
+								submitState === "submitting" ||
+								(!selected && details.tags.length >= SUBMIT_TAGS_MAX)
+							}
+							onClick={() => toggleTag(tag)}
+							tabIndex={detailsVisible ? 0 : -1}
+						>
+							{LINK_TAG_LABELS[tag]}
+						</button>
+					);
+				})}
+			</div>
+			<label className="fg-submit-details__handle">
+				<span aria-hidden>@</span>
+				<input
+					type="text"
+					className="fg-submit-details__field"
+					placeholder="X handle (optional)"
+					maxLength={16}
+					autoComplete="off"
+					spellCheck={false}
+					value={details.handle}
+					onChange={(ev) => onDetailsChange({ handle: ev.target.value })}
+					onKeyDown={submitOnEnter}
+					aria-label="Your X handle"
+					disabled={submitState === "submitting"}
+					tabIndex={detailsVisible ? 0 : -1}
+				/>
+			</label>
+		</div>
+	);
+
 	return (
 		<>
+			{renderDetailsPanel()}
+			<FavoritesShelf
+				open={favoritesOpen}
+				favorites={favorites}
+				onRemove={onRemoveFavorite}
+				onClose={onToggleFavorites}
+				history={visitHistory}
+				onHistoryEnabledChange={onVisitHistoryEnabledChange}
+				onClearHistory={onClearVisitHistory}
+			/>
 			<div
 				className="gui-console-theme-add-slot"
 				data-expanded={urlSubmitExpanded ? "true" : "false"}
@@ -172,6 +345,28 @@ export function ConsoleThemeToolbar({
 					{renderUrlRowContent()}
 				</div>
 			</div>
+			<IconButton
+				className={
+					"icon-btn gui-console-theme-icon-btn fg-favorites-toggle" +
+					(favoritesOpen ? " fg-favorites-toggle--open" : "")
+				}
+				type="button"
+				aria-label={`Saved inspirations (${favorites.length})`}
+				title="Saved inspirations"
+				aria-expanded={favoritesOpen}
+				onClick={(e) => {
+					onToggleFavorites();
+					const el = e.currentTarget;
+					requestAnimationFrame(() => el.blur());
+				}}
+			>
+				<Heart size={18} strokeWidth={2} fill={favorites.length > 0 ? "currentColor" : "none"} />
+				{favorites.length > 0 && (
+					<span className="fg-favorites-toggle__count" aria-hidden>
+						{favorites.length}
+					</span>
+				)}
+			</IconButton>
 			<IconButton
 				className="icon-btn gui-console-theme-icon-btn"
 				type="button"
@@ -0,0 +1,136 @@
+import { Download, ExternalLink, Trash2, X } from "lucide-react";
+import { favoritesToJson, favoritesToMarkdown, type FavoriteLink } from "../favorites";
+import type { VisitHistoryState } from "../visitHistory";
+import { IconButton } from "./IconButton";
+
+export type FavoritesShelfProps = {
+	open: boolean;
+	favorites: FavoriteLink[];
+	onRemove: (url: string) => void;
+	onClose: () => void;
+	/** Opt-in visit history (`visitHistory.ts`) lives here too: it's the other "what have I seen" list. */
+	history: VisitHistoryState;
+	onHistoryEnabledChange: (enabled: boolean) => void;
+	onClearHistory: () => void;
+};
+
+const download = (text: string, type: string, extension: string) => {
+	const url = URL.createObjectURL(new Blob([text], { type }));
+	const a = document.createElement("a");
+	a.href = url;
+	a.download = `saved-inspirations-${new Date().toISOString().slice(0, 10)}.${extension}`;
+	a.click();
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Drops below the console toolbar like the submit details panel; the heart button beside it toggles it. */
+export function FavoritesShelf({
+	open,
+	favorites,
+	onRemove,
+	onClose,
+	history,
+	onHistoryEnabledChange,
+	onClearHistory,
+}: FavoritesShelfProps) {
+	const tabIndex = open ? 0 : -1;
+
+	return (
+		<div
+			className={"fg-favorites" + (open ? " fg-favorites--open" : "")}
+			role="dialog"
+			aria-label="Saved inspirations"
+			aria-hidden={!open}
+		>
+			<header className="fg-favorites__header">
+				<span className="fg-favorites__title">Saved</span>
+				<IconButton
+					className="fg-favorites__icon-btn"
+					aria-label="Close saved inspirations"
+					onClick={onClose}
+					tabIndex={tabIndex}
+				>
+					<X size={14} strokeWidth={2} aria-hidden />
+				</IconButton>
+			</header>
+
+			{favorites.length === 0 ? (
+				<p className="fg-favorites__empty">
+					Hover an orb and press <kbd>F</kbd>, or tap the heart on its card.
+				</p>
+			) : (
+				<ul className="fg-favorites__list">
+					{favorites.map((item) => (
+						<li key={item.url} className="fg-favorites__item">
+							<a
+								className="fg-favorites__link"
+								href={item.url}
+								target="_blank"
+								rel="noopener noreferrer"
+								tabIndex={tabIndex}
+							>
+								<span>{item.title}</span>
+								<ExternalLink size={12} strokeWidth={2} aria-hidden />
+							</a>
+							<IconButton
+								className="fg-favorites__icon-btn"
+								aria-label={`Remove ${item.title}`}
+								onClick={() => onRemove(item.url)}
+								tabIndex={tabIndex}
+							>
+								<X size={12} strokeWidth={2} aria-hidden />
+							</IconButton>
+						</li>
+					))}
+				</ul>
+			)}
+
+			<footer className="fg-favorites__footer">
+				<button
+					type="button"
+					className="fg-favorites__export"
+					disabled={favorites.length === 0}
+					onClick={() => download(favoritesToMarkdown(favorites), "text/markdown", "md")}
+					tabIndex={tabIndex}
+				>
+					<Download size={12} strokeWidth={2} aria-hidden />
+					Markdown
+				</button>
+				<button
+					type="button"
+					className="fg-favorites__export"
+					disabled={favorites.length === 0}
+					onClick={() => download(favoritesToJson(favorites), "application/json", "json")}
+					tabIndex={tabIndex}
+				>
+					<Download size={12} strokeWidth={2} aria-hidden />
+					JSON
+				</button>
+			</footer>
+
+			<div className="fg-favorites__history">
+				<label className="fg-favorites__history-toggle">
+					<input
+						type="checkbox"
+						checked={history.enabled}
+						onChange={(e) => onHistoryEnabledChange(e.target.checked)}
+						tabIndex={tabIndex}
+					/>
+					<span>Remember links I've opened</span>
+				</label>
+				{history.enabled && (
+					<button
+						type="button"
+						className="fg-favorites__export"
+						disabled={history.count === 0}
+						onClick={onClearHistory}
+						tabIndex={tabIndex}
+					>
+						<Trash2 size={12} strokeWidth={2} aria-hidden />
+						Clear history ({history.count})
+					</button>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Heart } from "lucide-react";
+import type { LinkData } from "../links";
+import { LINK_TAG_LABELS } from "../linkTags";
+import type { Visit } from "../visitHistory";
+import { IconButton } from "./IconButton";
+
+export type OrbHoverCardProps = {
+	/** Last hovered orb's link; kept while the card fades out. */
+	link: LinkData | null;
+	visible: boolean;
+	saved: boolean;
+	/** From the opt-in visit history; `null` when it's off or the link was never opened. */
+	visit: Visit | null;
+	onToggleSaved: () => void;
+	/** Keeps the card up while the pointer is on it, after it has left the orb. */
+	onPointerInsideChange: (inside: boolean) => void;
+};
+
+const hostnameOf = (url: string) => {
+	try {
+		return new URL(url).hostname.replace(/^www\./, "");
+	} catch {
+		return url;
+	}
+};
+
+const describeVisit = ({ count, lastVisitedAt }: Visit) => {
+	const times = count === 1 ? "once" : `${count} times`;
+	const last = new Date(lastVisitedAt).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+	return `Opened ${times}, last on ${last}`;
+};
+
+/** Preview beside the hovered orb, positioned by `updateOrbHoverCard` in main; only the heart is interactive. */
+export function OrbHoverCard({ link, visible, saved, visit, onToggleSaved, onPointerInsideChange }: OrbHoverCardProps) {
+	// Broken favicons/images are common on unfurled pages; hide them rather than show the broken glyph.
+	const [failedImages, setFailedImages] = useState<ReadonlySet<string>>(() => new Set());
+	const hideImage = (src: string) => setFailedImages((failed) => new Set(failed).add(src));
+
+	if (!link) return null;
+	const preview = link.preview;
+	const image = preview?.image && !failedImages.has(preview.image) ? preview.image : null;
+	const favicon = preview?.favicon && !failedImages.has(preview.favicon) ? preview.favicon : null;
+
+	return (
+		<div
+			className={`orb-hover-card${visible ? " orb-hover-card--visible" : ""}`}
+			aria-hidden={!visible}
+			onPointerEnter={() => onPointerInsideChange(true)}
+			onPointerLeave={() => onPointerInsideChange(false)}
+		>
+			{image && (
+				<img
+					className="orb-hover-card__image"
+					src={image}
+					alt=""
+					loading="lazy"
+					referrerPolicy="no-referrer"
+					onError={() => hideImage(image)}
+				/>
+			)}
+			<div className="orb-hover-card__body">
+				<div className="orb-hover-card__site">
+					{favicon && (
+						<img
+							className="orb-hover-card__favicon"
+							src={favicon}
+							alt=""
+							width={14}
+							height={14}
+							referrerPolicy="no-referrer"
+							onError={() => hideImage(favicon)}
+						/>
+					)}
+					<span>{preview?.siteName ?? hostnameOf(link.url)}</span>
+					<IconButton
+						className={`orb-hover-card__save${saved ? " orb-hover-card__save--saved" : ""}`}
+						aria-label={saved ? "Remove from saved" : "Save for later"}
+						aria-pressed={saved}
+						title={saved ? "Remove from saved (F)" : "Save for later (F)"}
+						onClick={onToggleSaved}
+						tabIndex={visible ? 0 : -1}
+					>
+						<Heart size={14} strokeWidth={2} fill={saved ? "currentColor" : "none"} aria-hidden />
+					</IconButton>
+				</div>
+				<p className="orb-hover-card__title">{link.title}</p>
+				{preview?.description && <p className="orb-hover-card__description">{preview.description}</p>}
+				{(link.tags?.length || link.handle) && (
+					<div className="orb-hover-card__meta">
+						{link.tags?.map((tag) => (
+							<span key={tag} className="orb-hover-card__tag">
+								{LINK_TAG_LABELS[tag]}
+							</span>
+						))}
+						{link.handle && <span className="orb-hover-card__handle">via @{link.handle}</span>}
+					</div>
+				)}
+				{visit && <p className="orb-hover-card__visit">{describeVisit(visit)}</p>}
+			</div>
+		</div>
+	);
+}
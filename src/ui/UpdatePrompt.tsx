@@ -0,0 +1,39 @@
+import { RotateCw, X } from "lucide-react";
+import { IconButton } from "./IconButton";
+
+export type UpdatePromptProps = {
+	visible: boolean;
+	/** Activates the waiting service worker; the page reloads once it takes control. */
+	onReload: () => void;
+	onDismiss: () => void;
+};
+
+export function UpdatePrompt({ visible, onReload, onDismiss }: UpdatePromptProps) {
+	return (
+		<div
+			className={`update-prompt${visible ? " update-prompt--visible" : ""}`}
+			role="status"
+			aria-live="polite"
+			aria-hidden={!visible}
+		>
+			<span className="update-prompt__text">A new version of the grassland is ready.</span>
+			<button
+				type="button"
+				className="update-prompt__reload"
+				onClick={onReload}
+				tabIndex={visible ? 0 : -1}
+			>
+				<RotateCw size={14} strokeWidth={2} aria-hidden />
+				<span>Reload</span>
+			</button>
+			<IconButton
+				className="update-prompt__dismiss"
+				aria-label="Dismiss update notice"
+				onClick={onDismiss}
+				tabIndex={visible ? 0 : -1}
+			>
+				<X size={14} strokeWidth={2} aria-hidden />
+			</IconButton>
+		</div>
+	);
+}
@@ -0,0 +1,174 @@
+/**
+ * Opt-in, cross-session record of opened inspirations in IndexedDB. Unlike `orbSessionClicks` (dedupe
+ * for one tab session), this only exists once the visitor turns it on from the saved shelf. Reads are
+ * served from an in-memory copy so the orb picker can ask synchronously every spawn.
+ */
+
+import type { LinkData } from "./links";
+import { normalizeOrbHref } from "./orbHref";
+
+const DB_NAME = "fg-visit-history";
+const DB_VERSION = 1;
+const STORE = "visits";
+const ENABLED_KEY = "fg-visit-history-enabled";
+
+export interface Visit {
+    /** Normalized (see `normalizeOrbHref`); the store's key. */
+    url: string;
+    title: string;
+    firstVisitedAt: string;
+    lastVisitedAt: string;
+    count: number;
+}
+
+export interface VisitHistoryState {
+    enabled: boolean;
+    /** Distinct links visited. */
+    count: number;
+}
+
+type Listener = (state: VisitHistoryState) => void;
+
+const visits = new Map<string, Visit>();
+const listeners = new Set<Listener>();
+let enabled = readEnabled();
+let dbPromise: Promise<IDBDatabase> | null = null;
+/** Set while `loadVisitHistory` reads the store; visits recorded meanwhile wait for it. */
+let loading: Promise<void> | null = null;
+
+function readEnabled(): boolean {
+    try {
+        return localStorage.getItem(ENABLED_KEY) === "1";
+    } catch {
+        return false;
+    }
+}
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE, { keyPath: "url" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch((error) => {
+        dbPromise = null;
+        throw error;
+    });
+    return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return openDb().then(
+        (db) =>
+            new Promise<T>((resolve, reject) => {
+                const request = action(db.transaction(STORE, mode).objectStore(STORE));
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            })
+    );
+}
+
+function emit(): void {
+    const state = getVisitHistoryState();
+    for (const listener of listeners) {
+        listener(state);
+    }
+}
+
+export function getVisitHistoryState(): VisitHistoryState {
+    return { enabled, count: enabled ? visits.size : 0 };
+}
+
+/** Fills the in-memory copy; a no-op until history is turned on. */
+export function loadVisitHistory(): Promise<void> {
+    if (!enabled) {
+        return Promise.resolve();
+    }
+    loading ??= readVisits().finally(() => {
+        loading = null;
+    });
+    return loading;
+}
+
+async function readVisits(): Promise<void> {
+    try {
+        const all = await run<Visit[]>("readonly", (store) => store.getAll() as IDBRequest<Visit[]>);
+        visits.clear();
+        for (const visit of all) {
+            visits.set(visit.url, visit);
+        }
+    } catch (error) {
+        console.warn("[history] IndexedDB unavailable", error);
+    }
+    emit();
+}
+
+export function setVisitHistoryEnabled(value: boolean): void {
+    enabled = value;
+    try {
+        if (value) {
+            localStorage.setItem(ENABLED_KEY, "1");
+        } else {
+            localStorage.removeItem(ENABLED_KEY);
+        }
+    } catch {
+        // Private mode: on for this page only.
+    }
+    if (value) {
+        void loadVisitHistory();
+    } else {
+        emit();
+    }
+}
+
+/** `false` whenever history is off, so seen styling and the unseen preference switch off with it. */
+export function hasVisited(url: string): boolean {
+    return enabled && visits.has(normalizeOrbHref(url));
+}
+
+export function getVisit(url: string): Visit | undefined {
+    return enabled ? visits.get(normalizeOrbHref(url)) : undefined;
+}
+
+export function recordVisit(link: LinkData): void {
+    if (!enabled) {
+        return;
+    }
+    if (loading) {
+        // Counting now would start from an empty entry and the load would then replace it.
+        void loading.then(() => recordVisit(link));
+        return;
+    }
+    const url = normalizeOrbHref(link.url);
+    const now = new Date().toISOString();
+    const previous = visits.get(url);
+    const visit: Visit = {
+        url,
+        title: link.title,
+        firstVisitedAt: previous?.firstVisitedAt ?? now,
+        lastVisitedAt: now,
+        count: (previous?.count ?? 0) + 1,
+    };
+    visits.set(url, visit);
+    emit();
+    run("readwrite", (store) => store.put(visit)).catch((error) => {
+        console.warn("[history] Could not save visit", error);
+    });
+}
+
+export async function clearVisitHistory(): Promise<void> {
+    visits.clear();
+    emit();
+    try {
+        await run("readwrite", (store) => store.clear());
+    } catch (error) {
+        console.warn("[history] Could not clear history", error);
+    }
+}
+
+export function subscribeVisitHistory(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
@@ -1,73 +1,102 @@
-import { defineConfig, loadEnv } from "vite";
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import { join, relative, resolve } from "node:path";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
-import { createClient } from "@supabase/supabase-js";
+import { nodeMiddleware } from "./api/_http";
+import { apiConfigFromEnv, createApiRouter, createApiServices } from "./api/_router";
 
-export default defineConfig(({ mode }) => {
-	const env = loadEnv(mode, process.cwd(), "");
+/** Offline navigations in `src/sw.ts` fall back to this; a build without it in the precache fails. */
+const APP_SHELL_URL = "/index.html";
 
-	return {
-		plugins: [
-			react(),
-			{
-				name: "api-dev-middleware",
-				configureServer(server) {
-					server.middlewares.use(
-						"/api/submit",
-						(req, res, next) => {
-							if (req.method !== "POST") return next();
+/** Share images and the font licence aren't needed to run the scene offline. */
+const PRECACHE_PUBLIC_SKIP = [/^social\d*\.webp$/, /^OFL\.txt$/];
 
-							let body = "";
-							req.on("data", (chunk: Buffer) => { body += chunk.toString(); });
-							req.on("end", async () => {
-								res.setHeader("Content-Type", "application/json");
-								try {
-									const { url } = JSON.parse(body) as { url?: unknown };
+const listFiles = (dir: string): string[] =>
+	readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+		entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+	);
 
-									if (typeof url !== "string" || url.trim() === "") {
-										res.statusCode = 400;
-										res.end(JSON.stringify({ error: "Invalid URL" }));
-										return;
-									}
+/**
+ * Fills `src/sw.ts`'s `__PRECACHE_MANIFEST__` with every build output plus `public/`, and
+ * `__PRECACHE_VERSION__` with a hash of their contents, so any change to the deploy ships a new worker.
+ * Runs last so the HTML plugin has already emitted `index.html` into the bundle.
+ */
+function serviceWorkerPrecache(): Plugin {
+	let publicDir = "";
 
-									try {
-										const parsed = new URL(url.trim());
-										if (!["http:", "https:"].includes(parsed.protocol)) throw new Error();
-									} catch {
-										res.statusCode = 400;
-										res.end(JSON.stringify({ error: "Only http and https URLs are accepted" }));
-										return;
-									}
+	return {
+		name: "sw-precache-manifest",
+		apply: "build",
+		enforce: "post",
+		configResolved(config) {
+			publicDir = config.publicDir;
+		},
+		generateBundle: {
+			order: "post",
+			handler(_options, bundle) {
+				const worker = bundle["sw.js"];
+				if (!worker || worker.type !== "chunk") return;
 
-									const supabaseUrl = env.SUPABASE_URL;
-									const supabaseKey = env.SUPABASE_SERVICE_ROLE_KEY;
+				const entries: { url: string; source: string | Uint8Array }[] = [];
+				for (const [fileName, output] of Object.entries(bundle)) {
+					if (fileName === "sw.js" || fileName.endsWith(".map")) continue;
+					entries.push({ url: `/${fileName}`, source: output.type === "chunk" ? output.code : output.source });
+				}
+				if (publicDir) {
+					for (const file of listFiles(publicDir)) {
+						const path = relative(publicDir, file).split("\\").join("/");
+						if (PRECACHE_PUBLIC_SKIP.some((pattern) => pattern.test(path))) continue;
+						entries.push({ url: `/${path}`, source: readFileSync(file) });
+					}
+				}
+				entries.sort((a, b) => a.url.localeCompare(b.url));
+				if (!entries.some((entry) => entry.url === APP_SHELL_URL)) {
+					this.error(`${APP_SHELL_URL} is missing from the service worker precache`);
+				}
 
-									if (!supabaseUrl || !supabaseKey) {
-										console.error("[api/submit dev] Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local");
-										res.statusCode = 500;
-										res.end(JSON.stringify({ error: "Server misconfiguration" }));
-										return;
-									}
+				const hash = createHash("sha256");
+				for (const entry of entries) {
+					hash.update(entry.url).update(entry.source);
+				}
 
-									const supabase = createClient(supabaseUrl, supabaseKey);
-									const { error } = await supabase.from("submissions").insert({ url: url.trim() });
+				worker.code = worker.code
+					.replace(/__PRECACHE_MANIFEST__/g, JSON.stringify(entries.map((entry) => entry.url)))
+					.replace(/__PRECACHE_VERSION__/g, JSON.stringify(hash.digest("hex").slice(0, 12)));
+			},
+		},
+	};
+}
 
-									if (error) {
-										console.error("[api/submit dev] Supabase error", error);
-										res.statusCode = 500;
-										res.end(JSON.stringify({ error: "Failed to save submission" }));
-										return;
-									}
+export default defineConfig(({ mode }) => {
+	const env = loadEnv(mode, process.cwd(), "");
 
-									res.statusCode = 201;
-									res.end(JSON.stringify({ ok: true }));
-								} catch (e) {
-									console.error("[api/submit dev] Unexpected error", e);
-									res.statusCode = 500;
-									res.end(JSON.stringify({ error: "Server error" }));
-								}
-							});
-						}
-					);
+	return {
+		build: {
+			rollupOptions: {
+				// The service worker must sit at the site root, unhashed, to control every page.
+				input: {
+					main: resolve(__dirname, "index.html"),
+					sw: resolve(__dirname, "src/sw.ts"),
+				},
+				output: {
+					entryFileNames: (chunk) =>
+						chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js",
+				},
+			},
+		},
+		plugins: [
+			react(),
+			serviceWorkerPrecache(),
+			{
+				name: "api-dev-middleware",
+				configureServer(server) {
+					// Same router as the Vercel functions, configured from `.env.local`. Without Supabase
+					// credentials, submissions and the catalog live in a local JSON file instead.
+					const config = apiConfigFromEnv(env);
+					config.store ??= config.supabaseUrl && config.supabaseKey ? "supabase" : "file";
+					const router = createApiRouter(createApiServices(config));
+					server.middlewares.use(nodeMiddleware(router));
 				},
 			},
 		],